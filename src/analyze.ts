@@ -0,0 +1,295 @@
+import * as path from "path";
+import * as ts from "typescript";
+import { flatten, upperFirst } from "lodash";
+import { CFEnvironment, CFPermissions } from "./buildCloudFormationTemplate";
+import { builtInVariableNames } from "./environmentModule";
+import { FunctionSource } from "./generate";
+import { PolicyStatement } from "./policy";
+import { reservedVariableNames } from "./validation";
+
+export type AnalysisFinding =
+  | {
+      kind: "undeclaredVariable";
+      file: string;
+      line: number;
+      column: number;
+      variable: string;
+    }
+  | {
+      kind: "ungrantedAction";
+      file: string;
+      line: number;
+      column: number;
+      action: string;
+    };
+
+// IAM prefixes of the AWS SDK v3 client packages
+const clientPackageServices: { [packageName: string]: string } = {
+  "@aws-sdk/client-dynamodb": "dynamodb",
+  "@aws-sdk/lib-dynamodb": "dynamodb",
+  "@aws-sdk/client-s3": "s3",
+  "@aws-sdk/client-cognito-identity-provider": "cognito-idp",
+  "@aws-sdk/client-ses": "ses",
+  "@aws-sdk/client-sesv2": "ses",
+  "@aws-sdk/client-secrets-manager": "secretsmanager",
+  "@aws-sdk/client-ssm": "ssm",
+  "@aws-sdk/client-sqs": "sqs",
+  "@aws-sdk/client-sns": "sns",
+  "@aws-sdk/client-lambda": "lambda",
+};
+
+// IAM prefixes of the AWS SDK v2 clients, keyed by their declaration file
+const sdkV2ClientServices: { [client: string]: string } = {
+  dynamodb: "dynamodb",
+  s3: "s3",
+  cognitoidentityserviceprovider: "cognito-idp",
+  ses: "ses",
+  sesv2: "ses",
+  secretsmanager: "secretsmanager",
+  ssm: "ssm",
+  sqs: "sqs",
+  sns: "sns",
+  lambda: "lambda",
+};
+
+// Operations of the document clients map to the table operations they wrap
+const documentClientOperations: { [operation: string]: string } = {
+  Get: "GetItem",
+  Put: "PutItem",
+  Update: "UpdateItem",
+  Delete: "DeleteItem",
+  BatchGet: "BatchGetItem",
+  BatchWrite: "BatchWriteItem",
+  TransactGet: "TransactGetItems",
+  TransactWrite: "TransactWriteItems",
+};
+
+// Operations that are authorized by an action with a different name
+const operationActions: { [action: string]: string } = {
+  "s3:ListObjects": "s3:ListBucket",
+  "s3:ListObjectsV2": "s3:ListBucket",
+  "s3:HeadObject": "s3:GetObject",
+  "s3:HeadBucket": "s3:ListBucket",
+  "s3:Upload": "s3:PutObject",
+  "lambda:Invoke": "lambda:InvokeFunction",
+};
+
+const operationAction = (service: string, operation: string) => {
+  const action = `${service}:${upperFirst(operation)}`;
+  return operationActions[action] || action;
+};
+
+const actionPattern = (action: string) =>
+  new RegExp(
+    `^${action
+      .split("*")
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join(".*")}$`,
+    "i"
+  );
+
+const isPolicyStatement = (statement: unknown): statement is PolicyStatement =>
+  typeof statement === "object" &&
+  statement !== null &&
+  "Effect" in statement &&
+  "Action" in statement;
+
+const statementActions = (statement: unknown): string[] =>
+  isPolicyStatement(statement) && statement.Effect === "Allow"
+    ? flatten([statement.Action]).filter(
+        (action): action is string => typeof action === "string"
+      )
+    : [];
+
+const compilerOptionsFor = (entry: string): ts.CompilerOptions => {
+  const configFile = ts.findConfigFile(path.dirname(entry), ts.sys.fileExists);
+  if (!configFile) {
+    return {
+      target: ts.ScriptTarget.ES2019,
+      module: ts.ModuleKind.CommonJS,
+      moduleResolution: ts.ModuleResolutionKind.NodeJs,
+      esModuleInterop: true,
+      allowJs: true,
+    };
+  }
+
+  const { config } = ts.readConfigFile(configFile, ts.sys.readFile);
+  return ts.parseJsonConfigFileContent(config, ts.sys, path.dirname(configFile))
+    .options;
+};
+
+const isProcessEnv = (node: ts.Expression) =>
+  ts.isPropertyAccessExpression(node) &&
+  node.name.text === "env" &&
+  ts.isIdentifier(node.expression) &&
+  node.expression.text === "process";
+
+// The variable a `process.env.X` or `process.env["X"]` expression reads
+const environmentVariableRead = (node: ts.Node) => {
+  if (ts.isPropertyAccessExpression(node) && isProcessEnv(node.expression)) {
+    return node.name.text;
+  }
+
+  if (
+    ts.isElementAccessExpression(node) &&
+    isProcessEnv(node.expression) &&
+    ts.isStringLiteralLike(node.argumentExpression)
+  ) {
+    return node.argumentExpression.text;
+  }
+
+  return undefined;
+};
+
+// The package an identifier was imported from
+const importedFrom = (checker: ts.TypeChecker, identifier: ts.Identifier) => {
+  const symbol = checker.getSymbolAtLocation(identifier);
+  const declaration = symbol && symbol.declarations && symbol.declarations[0];
+  if (!declaration || !ts.isImportSpecifier(declaration)) {
+    return undefined;
+  }
+
+  const moduleSpecifier = declaration.parent.parent.parent.moduleSpecifier;
+  return ts.isStringLiteral(moduleSpecifier) ? moduleSpecifier.text : undefined;
+};
+
+// `new QueryCommand(...)` from one of the v3 client packages
+const sdkV3Action = (checker: ts.TypeChecker, node: ts.Node) => {
+  if (!ts.isNewExpression(node) || !ts.isIdentifier(node.expression)) {
+    return undefined;
+  }
+
+  const packageName = importedFrom(checker, node.expression);
+  const service = packageName && clientPackageServices[packageName];
+  const match = /^(\w+)Command$/.exec(node.expression.text);
+  if (!service || !match) {
+    return undefined;
+  }
+
+  return packageName === "@aws-sdk/lib-dynamodb"
+    ? `dynamodb:${documentClientOperations[match[1]] || match[1]}`
+    : operationAction(service, match[1]);
+};
+
+// `client.query(...)` on a client declared by the aws-sdk package, needs the
+// package's declarations to be resolvable from the handler
+const sdkV2Action = (checker: ts.TypeChecker, node: ts.Node) => {
+  if (
+    !ts.isCallExpression(node) ||
+    !ts.isPropertyAccessExpression(node.expression)
+  ) {
+    return undefined;
+  }
+
+  const clientType = checker.getTypeAtLocation(node.expression.expression);
+  const declaration =
+    clientType.symbol &&
+    clientType.symbol.declarations &&
+    clientType.symbol.declarations[0];
+  if (!declaration) {
+    return undefined;
+  }
+
+  const declarationFile = declaration
+    .getSourceFile()
+    .fileName.split(path.sep)
+    .join("/");
+  const operation = upperFirst(node.expression.name.text);
+
+  if (declarationFile.endsWith("aws-sdk/lib/dynamodb/document_client.d.ts")) {
+    return `dynamodb:${documentClientOperations[operation] || operation}`;
+  }
+
+  const match = /aws-sdk\/clients\/(\w+)\.d\.ts$/.exec(declarationFile);
+  const service = match && sdkV2ClientServices[match[1]];
+  return service ? operationAction(service, operation) : undefined;
+};
+
+// Reports reads of variables the metadata does not declare and AWS SDK calls
+// whose actions are not in the execution policy. Every module the handler's
+// entry imports is checked, except for declarations and installed packages.
+export const analyzeFunction = ({
+  metadata,
+  entry,
+}: FunctionSource): AnalysisFinding[] => {
+  const declaredVariables = [
+    ...builtInVariableNames,
+    ...reservedVariableNames,
+    ...metadata.environment.map(
+      (variable) => CFEnvironment.toVariable(variable).name
+    ),
+  ];
+
+  const grantedActions = flatten([
+    ...metadata.permissions.map((permission) =>
+      flatten(
+        CFPermissions.toPolicyStatements(permission).map(statementActions)
+      )
+    ),
+    ...metadata.environment.map((variable) =>
+      flatten(CFEnvironment.toPolicyStatements(variable).map(statementActions))
+    ),
+  ]).map(actionPattern);
+
+  const program = ts.createProgram([entry], compilerOptionsFor(entry));
+  const checker = program.getTypeChecker();
+  const findings: AnalysisFinding[] = [];
+
+  const sourceFiles = program
+    .getSourceFiles()
+    .filter(
+      (sourceFile) =>
+        !sourceFile.isDeclarationFile &&
+        !sourceFile.fileName.split(/[\\/]/).includes("node_modules")
+    );
+
+  for (const sourceFile of sourceFiles) {
+    const location = (node: ts.Node) => {
+      const { line, character } = sourceFile.getLineAndCharacterOfPosition(
+        node.getStart(sourceFile)
+      );
+      return {
+        file: path.relative(process.cwd(), sourceFile.fileName),
+        line: line + 1,
+        column: character + 1,
+      };
+    };
+
+    const visit = (node: ts.Node) => {
+      const variable = environmentVariableRead(node);
+      if (variable !== undefined && !declaredVariables.includes(variable)) {
+        findings.push({
+          kind: "undeclaredVariable",
+          ...location(node),
+          variable,
+        });
+      }
+
+      const action = sdkV3Action(checker, node) || sdkV2Action(checker, node);
+      if (
+        action !== undefined &&
+        !grantedActions.some((pattern) => pattern.test(action))
+      ) {
+        findings.push({ kind: "ungrantedAction", ...location(node), action });
+      }
+
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+  }
+
+  return findings;
+};
+
+export const formatAnalysisFinding = (
+  handlerDir: string,
+  finding: AnalysisFinding
+) => {
+  const at = `${handlerDir}: ${finding.file}:${finding.line}:${finding.column}`;
+  switch (finding.kind) {
+    case "undeclaredVariable":
+      return `${at}: reads ${finding.variable}, which the metadata does not declare`;
+    case "ungrantedAction":
+      return `${at}: calls ${finding.action}, which the execution policy does not allow`;
+  }
+};
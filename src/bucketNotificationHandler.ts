@@ -0,0 +1,121 @@
+// Source of the custom resource that adds a function to the notification
+// configuration of a bucket owned by another stack. The existing
+// configuration is read first so notifications added by others are kept.
+export const bucketNotificationHandlerSource = `
+const https = require("https");
+const { URL } = require("url");
+const {
+  S3Client,
+  GetBucketNotificationConfigurationCommand,
+  PutBucketNotificationConfigurationCommand,
+} = require("@aws-sdk/client-s3");
+
+const s3 = new S3Client({});
+
+const respond = (event, status, reason) =>
+  new Promise((resolve, reject) => {
+    const body = JSON.stringify({
+      Status: status,
+      Reason: reason,
+      PhysicalResourceId:
+        event.ResourceProperties.BucketName + "/" + event.ResourceProperties.Id,
+      StackId: event.StackId,
+      RequestId: event.RequestId,
+      LogicalResourceId: event.LogicalResourceId,
+    });
+    const url = new URL(event.ResponseURL);
+    const request = https.request(
+      {
+        hostname: url.hostname,
+        path: url.pathname + url.search,
+        method: "PUT",
+        headers: { "content-type": "", "content-length": Buffer.byteLength(body) },
+      },
+      resolve
+    );
+    request.on("error", reject);
+    request.end(body);
+  });
+
+const readConfiguration = async (bucket) => {
+  const current = await s3.send(
+    new GetBucketNotificationConfigurationCommand({ Bucket: bucket })
+  );
+  delete current.$metadata;
+  return current;
+};
+
+const writeConfiguration = async (bucket, id, configuration) => {
+  const current = await readConfiguration(bucket);
+  const others = (current.LambdaFunctionConfigurations || []).filter(
+    (c) => c.Id !== id
+  );
+  await s3.send(
+    new PutBucketNotificationConfigurationCommand({
+      Bucket: bucket,
+      NotificationConfiguration: {
+        ...current,
+        LambdaFunctionConfigurations: configuration
+          ? [...others, configuration]
+          : others,
+      },
+    })
+  );
+};
+
+const hasConfiguration = async (bucket, id) =>
+  ((await readConfiguration(bucket)).LambdaFunctionConfigurations || []).some(
+    (c) => c.Id === id
+  );
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Another stack can rewrite the configuration between the read and the write,
+// so the result is read back and the write is retried after a random delay
+// until it sticks
+const replaceConfiguration = async (bucket, id, configuration) => {
+  for (let attempt = 1; ; attempt++) {
+    await writeConfiguration(bucket, id, configuration);
+    await sleep(1000 + Math.random() * 2000);
+    if ((await hasConfiguration(bucket, id)) === Boolean(configuration)) {
+      return;
+    }
+
+    if (attempt === 5) {
+      throw new Error(
+        "The notification configuration of " +
+          bucket +
+          " kept being overwritten by another update"
+      );
+    }
+  }
+};
+
+exports.handler = async (event) => {
+  const props = event.ResourceProperties;
+  try {
+    const old = event.OldResourceProperties;
+    if (old && old.BucketName !== props.BucketName) {
+      await replaceConfiguration(old.BucketName, old.Id);
+    }
+
+    if (event.RequestType === "Delete") {
+      await replaceConfiguration(props.BucketName, props.Id).catch(() => {});
+    } else {
+      await replaceConfiguration(props.BucketName, props.Id, {
+        Id: props.Id,
+        LambdaFunctionArn: props.LambdaFunctionArn,
+        Events: props.Events,
+        Filter:
+          props.FilterRules.length > 0
+            ? { Key: { FilterRules: props.FilterRules } }
+            : undefined,
+      });
+    }
+
+    await respond(event, "SUCCESS");
+  } catch (e) {
+    await respond(event, "FAILED", e.message);
+  }
+};
+`;
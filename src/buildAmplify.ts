@@ -2,183 +2,577 @@
 
 import { promises as fs } from "fs";
 import * as path from "path";
+import { debounce } from "lodash";
 import {
-  buildCloudFormationTemplate,
-  CFEnvironment,
-  CFPermissions,
-  TableParameterProvider,
-  TableDetailProvider,
-  TableResourceOutputReferenceProvider,
-} from "./buildCloudFormationTemplate";
-import webpack from "webpack";
-import { flatten, groupBy, uniqBy } from "lodash";
-import { LambdaFunction } from "./types";
-import { fork } from "child_process";
+  bundleFunction,
+  checkFunctionDependencies,
+  FunctionBuild,
+  FunctionSource,
+  listHandlerDirs,
+  loadFunctionSource,
+  loadProjectDefaults,
+  prepareFunction,
+  BackendConfigEntry,
+  UserPoolTriggerConnection,
+  watchBundle,
+} from "./generate";
+import {
+  applyBackendConfigEntries,
+  applyFunctionParameters,
+  applyParameterValues,
+  environmentModulePath,
+  functionOutputDir,
+  functionParametersFileName,
+  prunableFunctions,
+  pruneFunctions,
+  readBackendConfig,
+  readFileIfExists,
+  readJsonIfExists,
+  readTeamProviderInfo,
+  removeBackendConfigEntries,
+  templateFileName,
+  userPoolTriggerChanges,
+  writeBackendConfigEntries,
+  writeEnvironmentModule,
+  writeFunctionBuild,
+  writeFunctionFiles,
+  writeFunctionParameters,
+  writeFunctionTemplate,
+  writeParameterValues,
+  writeUserPoolTriggers,
+} from "./writer";
+import { CFParameter } from "./buildCloudFormationTemplate";
+import { diffJson, formatJsonChange } from "./diff";
+import {
+  AnalysisFinding,
+  analyzeFunction,
+  formatAnalysisFinding,
+} from "./analyze";
+import { formatValidationErrors, validateLambdaFunction } from "./validation";
+import {
+  hashSettings,
+  isBuildCacheFresh,
+  readBuildCache,
+  writeBuildCache,
+} from "./buildCache";
+import { ChildProcess, fork } from "child_process";
+import { watch } from "fs";
+import { cpus } from "os";
 import yargs from "yargs";
 import { register as registerTsNode } from "ts-node";
 
 registerTsNode();
 
-const isString = (s: string | undefined): s is string => !!s;
+const runWithConcurrency = async <T>(
+  items: readonly T[],
+  concurrency: number,
+  run: (item: T) => Promise<void>
+) => {
+  const queue = [...items];
+  const worker = async () => {
+    for (let item = queue.shift(); item !== undefined; item = queue.shift()) {
+      await run(item);
+    }
+  };
+  const workerCount = Math.min(
+    Math.max(1, Math.floor(concurrency) || 1),
+    queue.length
+  );
+  await Promise.all(Array.from({ length: workerCount }, worker));
+};
+
+const toolVersion = async (): Promise<string> =>
+  JSON.parse(
+    await fs.readFile(path.join(__dirname, "..", "package.json"), "utf8")
+  ).version;
 
-const buildFunction = async (
+// Sent from a build process to the process that forked it
+type BuildMessage = {
+  handlerDir: string;
+  backendConfigEntry: BackendConfigEntry;
+  parameters: CFParameter[];
+  userPoolTriggers: UserPoolTriggerConnection[];
+  stale: boolean;
+};
+
+// Prints how the generated template and bundle differ from what is on disk
+// and returns whether anything differs
+const diffFunctionBuild = async (
+  build: FunctionBuild,
+  amplifyBackendDir: string,
+  verbose: boolean
+): Promise<boolean> => {
+  const outputDir = functionOutputDir(amplifyBackendDir, build.handlerDir);
+  const templateFile = templateFileName(build.handlerDir);
+
+  const templateChanges = diffJson(
+    await readJsonIfExists(path.join(outputDir, templateFile)),
+    build.template
+  );
+
+  const parametersFile = functionParametersFileName(
+    amplifyBackendDir,
+    build.handlerDir
+  );
+  const existingParameters = await readJsonIfExists(parametersFile);
+  const parameterChanges = diffJson(
+    existingParameters,
+    applyFunctionParameters(existingParameters, build.parameters)
+  );
+
+  const changedFiles: string[] = [];
+  for (const [relativePath, contents] of build.files) {
+    const existing = await readFileIfExists(
+      path.join(outputDir, "src", relativePath)
+    );
+    if (!existing || !existing.equals(contents)) {
+      changedFiles.push(path.join("src", relativePath));
+    }
+  }
+
+  const stale =
+    templateChanges.length > 0 ||
+    parameterChanges.length > 0 ||
+    changedFiles.length > 0;
+  if (stale) {
+    console.log(`${build.handlerDir} is out of date`);
+  }
+  if (verbose && templateChanges.length > 0) {
+    console.log(templateFile);
+    templateChanges.forEach((change) =>
+      console.log(`  ${formatJsonChange(change)}`)
+    );
+  }
+  if (verbose && parameterChanges.length > 0) {
+    console.log("parameters.json");
+    parameterChanges.forEach((change) =>
+      console.log(`  ${formatJsonChange(change)}`)
+    );
+  }
+  if (verbose && changedFiles.length > 0) {
+    changedFiles.forEach((file) => console.log(`  ~ ${file}`));
+  }
+
+  return stale;
+};
+
+const diffBackendConfig = async (
+  entries: BuildMessage[],
+  amplifyBackendDir: string,
+  verbose: boolean
+): Promise<boolean> => {
+  const backendConfig = await readBackendConfig(amplifyBackendDir);
+  const changes = diffJson(
+    backendConfig,
+    applyBackendConfigEntries(backendConfig, entries)
+  );
+
+  if (changes.length > 0) {
+    console.log("backend-config.json is out of date");
+  }
+  if (verbose) {
+    changes.forEach((change) => console.log(`  ${formatJsonChange(change)}`));
+  }
+
+  return changes.length > 0;
+};
+
+const diffUserPoolTriggers = async (
+  entries: BuildMessage[],
+  amplifyBackendDir: string,
+  verbose: boolean
+): Promise<boolean> => {
+  const changes = await userPoolTriggerChanges(entries, amplifyBackendDir);
+  changes.forEach(({ authName, cliInputs, updated }) => {
+    console.log(`auth/${authName}/cli-inputs.json is out of date`);
+    if (verbose) {
+      diffJson(cliInputs, updated).forEach((change) =>
+        console.log(`  ${formatJsonChange(change)}`)
+      );
+    }
+  });
+
+  return changes.length > 0;
+};
+
+const diffTeamProviderInfo = async (
+  entries: BuildMessage[],
+  amplifyBackendDir: string,
+  verbose: boolean
+): Promise<boolean> => {
+  const teamProviderInfo = await readTeamProviderInfo(amplifyBackendDir);
+  const changes = teamProviderInfo
+    ? diffJson(
+        teamProviderInfo,
+        applyParameterValues(teamProviderInfo, entries)
+      )
+    : [];
+
+  if (changes.length > 0) {
+    console.log("team-provider-info.json is out of date");
+  }
+  if (verbose) {
+    changes.forEach((change) => console.log(`  ${formatJsonChange(change)}`));
+  }
+
+  return changes.length > 0;
+};
+
+// Loads every handler's metadata, so it is done once by the process that
+// forks the builds. Functions that are pruned in the same run cannot be
+// targeted.
+const checkHandlerDependencies = async (
+  handlersDir: string,
+  handlerDirs: readonly string[],
+  amplifyBackendDir: string,
+  prune = false
+) => {
+  const sources: FunctionSource[] = [];
+  for (const handlerDir of handlerDirs) {
+    sources.push(await loadFunctionSource(handlersDir, handlerDir));
+  }
+  const backendConfig = await readBackendConfig(amplifyBackendDir);
+  checkFunctionDependencies(
+    sources,
+    prune
+      ? removeBackendConfigEntries(
+          backendConfig,
+          prunableFunctions(backendConfig, handlerDirs)
+        )
+      : backendConfig
+  );
+};
+
+const prepareHandler = async (
   handlersDir: string,
   handlerDir: string,
   amplifyBackendDir: string
 ) => {
-  if (!(await fs.stat(path.join(handlersDir, handlerDir))).isDirectory())
-    return;
   console.log("Looking at", handlerDir);
 
-  const metadataModulePath = path.join(
-    process.cwd(),
+  const source = await loadFunctionSource(handlersDir, handlerDir);
+  console.log("Config:", source.metadata);
+
+  const prepared = await prepareFunction(source, {
+    amplifyBackendDir,
+    projectDefaults: await loadProjectDefaults(handlersDir),
+    teamProviderInfo: await readTeamProviderInfo(amplifyBackendDir),
+  });
+
+  // Inputs other than the sources that change the generated output
+  const settings = {
+    toolVersion: await toolVersion(),
+    template: prepared.template,
+    backendConfigEntry: prepared.backendConfigEntry,
+    parameters: prepared.parameters,
+    userPoolTriggers: prepared.userPoolTriggers,
+    entry: path.relative(process.cwd(), prepared.entry),
+    externalPackages: prepared.externalPackages,
+  };
+
+  return { prepared, settings };
+};
+
+const buildFunction = async (
+  handlersDir: string,
+  handlerDir: string,
+  amplifyBackendDir: string,
+  {
+    compareOnly,
+    verbose,
+    force,
+  }: { compareOnly: boolean; verbose: boolean; force: boolean }
+): Promise<BuildMessage> => {
+  const { prepared, settings } = await prepareHandler(
     handlersDir,
     handlerDir,
-    "metadata"
+    amplifyBackendDir
   );
-  const metadata = (await import(metadataModulePath)).default as LambdaFunction;
-  console.log("Config:", metadata);
 
-  const CFTable = {
-    ...TableParameterProvider,
-    ...TableDetailProvider,
-    ...TableResourceOutputReferenceProvider,
-  };
+  const environmentModuleFile = environmentModulePath(handlersDir, handlerDir);
 
-  const cfTemplate = buildCloudFormationTemplate({
-    eventSource: metadata.eventSource,
-    name: handlerDir,
-    environment: metadata.environment,
-    permissions: metadata.permissions,
-    cfEnvironment: CFEnvironment,
-    cfPermissions: CFPermissions,
-    cfTable: CFTable,
-  });
+  if (compareOnly) {
+    const existingModule = await readFileIfExists(environmentModuleFile);
+    const environmentModuleStale =
+      !existingModule ||
+      existingModule.toString("utf8") !== prepared.environmentModule;
+    if (environmentModuleStale) {
+      console.log(`${environmentModuleFile} is out of date`);
+    }
+
+    const build = await bundleFunction(prepared);
+    const buildStale = await diffFunctionBuild(
+      build,
+      amplifyBackendDir,
+      verbose
+    );
+    return {
+      handlerDir,
+      backendConfigEntry: build.backendConfigEntry,
+      parameters: build.parameters,
+      userPoolTriggers: build.userPoolTriggers,
+      stale: environmentModuleStale || buildStale,
+    };
+  }
 
-  const outputDir = path.join(amplifyBackendDir, "function", handlerDir);
+  // Written before the cache is checked because handlers bundle it
+  if (await writeEnvironmentModule(handlersDir, prepared)) {
+    console.log(`Wrote ${environmentModuleFile}`);
+  }
 
-  await fs.mkdir(outputDir, { recursive: true });
+  const outputDir = functionOutputDir(amplifyBackendDir, handlerDir);
+  const settingsHash = hashSettings(settings);
+  const cacheIsFresh =
+    !force &&
+    (await isBuildCacheFresh(
+      await readBuildCache(outputDir),
+      settingsHash,
+      outputDir
+    ));
 
-  await fs.writeFile(
-    path.join(outputDir, `${handlerDir}-cloudformation-template.json`),
-    JSON.stringify(cfTemplate, null, "\t"),
-    "utf8"
-  );
+  if (cacheIsFresh) {
+    console.log(`${handlerDir} is up to date`);
+  } else {
+    const build = await bundleFunction(prepared);
+    await writeFunctionBuild(build, amplifyBackendDir);
+    await writeBuildCache(outputDir, settingsHash, build.sourceFiles, [
+      templateFileName(handlerDir),
+      ...Array.from(build.files.keys(), (file) => path.join("src", file)),
+    ]);
+  }
 
-  const backendConfigFile = path.join(amplifyBackendDir, "backend-config.json");
-  const backendConfig = JSON.parse(
-    await fs.readFile(backendConfigFile, "utf8")
-  );
+  return {
+    handlerDir,
+    backendConfigEntry: prepared.backendConfigEntry,
+    parameters: prepared.parameters,
+    userPoolTriggers: prepared.userPoolTriggers,
+    stale: false,
+  };
+};
 
-  const resourceReferences = groupBy(
-    uniqBy(
-      [
-        ...flatten(metadata.environment.map(CFEnvironment.toOutputReferences)),
-        ...flatten(metadata.permissions.map(CFPermissions.toOutputReferences)),
-        ...(metadata.eventSource
-          ? CFTable.toOutputReferences(metadata.eventSource)
-          : []),
-      ],
-      ({ category, resource, output }) => `${category}-${resource}-${output}`
-    ),
-    ({ category, resource }) => `${category}-${resource}`
+// Writes the template straight away and keeps the process alive rebundling
+// the sources, metadata changes are handled by the parent restarting it
+const watchFunction = async (
+  handlersDir: string,
+  handlerDir: string,
+  amplifyBackendDir: string
+): Promise<BuildMessage> => {
+  const { prepared } = await prepareHandler(
+    handlersDir,
+    handlerDir,
+    amplifyBackendDir
   );
+  await writeEnvironmentModule(handlersDir, prepared);
+  await writeFunctionTemplate(prepared, amplifyBackendDir);
+  await writeFunctionParameters(prepared, amplifyBackendDir);
 
-  backendConfig.function = backendConfig.function || {};
-  backendConfig.function[handlerDir] = {
-    service: "Lambda",
-    providerPlugin: "awscloudformation",
-    build: true,
-    dependsOn: Object.values(resourceReferences).map((references) => ({
-      category: references[0].category,
-      resourceName: references[0].resource,
-      attributes: references.map(({ output }) => output),
-    })),
+  // Compile errors are printed and the next change is waited for
+  watchBundle(prepared, (err, files) => {
+    if (err || !files) {
+      console.error(err);
+      return;
+    }
+    writeFunctionFiles(handlerDir, files, amplifyBackendDir).then(
+      () => console.log(`Bundled ${handlerDir}`),
+      (e) => console.error(e)
+    );
+  });
+
+  return {
+    handlerDir,
+    backendConfigEntry: prepared.backendConfigEntry,
+    parameters: prepared.parameters,
+    userPoolTriggers: prepared.userPoolTriggers,
+    stale: false,
   };
-  await fs.writeFile(
-    backendConfigFile,
-    JSON.stringify(backendConfig, null, 2),
-    "utf8"
-  );
+};
 
-  const srcOutputDir = path.join(outputDir, "src");
-  await fs.mkdir(srcOutputDir, { recursive: true });
+const isMetadataFile = (fileName: string) => /^metadata\.[jt]s$/.test(fileName);
 
-  await fs.writeFile(
-    path.join(srcOutputDir, "package.json"),
-    JSON.stringify(
-      {
-        name: handlerDir,
-        version: "2.0.0",
-        description: "Lambda function generated by Amplify",
-        main: "index.js",
-        license: "Apache-2.0",
-      },
-      null,
-      2
-    ),
-    "utf8"
-  );
+const isDefaultsFile = (fileName: string) => /^defaults\.[jt]s$/.test(fileName);
 
-  const entrySrc = metadata.handlerSrc
-    ? path.relative(metadataModulePath, metadata.handlerSrc)
-    : path.join(process.cwd(), handlersDir, handlerDir, "src", "index.ts");
-
-  const webpackConfig: webpack.Configuration = {
-    entry: entrySrc,
-    output: {
-      publicPath: "./",
-      path: srcOutputDir,
-      filename: "index.js",
-      libraryTarget: "commonjs2",
-    },
-    target: "node",
-    node: false,
-    mode: "none",
-    resolve: {
-      extensions: [".ts", ".tsx", ".json", ".js"],
-    },
-    externals: {
-      "aws-sdk": "commonjs2 aws-sdk",
-    },
-    module: {
-      rules: [
-        {
-          test: /\.tsx?$/,
-          use: [{ loader: require.resolve("ts-loader") }],
-        },
-        {
-          test: /\.html?$/,
-          use: [
-            {
-              loader: require.resolve("file-loader"),
-            },
-          ],
-        },
-      ],
-    },
+const isDirectory = async (dir: string) => {
+  try {
+    return (await fs.stat(dir)).isDirectory();
+  } catch (e) {
+    if (e.code === "ENOENT") {
+      return false;
+    }
+    throw e;
+  }
+};
+
+// Runs a watching child per handler. Children are restarted when their
+// metadata or the project defaults change, a fresh process is needed because
+// the metadata modules stay in the require cache
+const watchFunctions = async (
+  handlersDir: string,
+  handlerDirs: readonly string[],
+  forkChild: (handlerDir: string) => ChildProcess,
+  amplifyBackendDir: string,
+  prune: boolean
+) => {
+  const children = new Map<string, ChildProcess>();
+  const handlerWatchers = new Map<string, ReturnType<typeof watch>>();
+
+  // backend-config.json is read and written by one update at a time
+  let backendConfigUpdate = Promise.resolve();
+  const applyMessage = (message: BuildMessage) => {
+    backendConfigUpdate = backendConfigUpdate
+      .then(() => writeBackendConfigEntries([message], amplifyBackendDir))
+      .then(() => writeUserPoolTriggers([message], amplifyBackendDir))
+      .then(() => writeParameterValues([message], amplifyBackendDir))
+      .then(
+        () => console.log(`Updated ${message.handlerDir}`),
+        (e) => console.error(e)
+      );
   };
 
-  const packer = webpack(webpackConfig);
+  const stopChild = (handlerDir: string) => {
+    const child = children.get(handlerDir);
+    if (child) {
+      children.delete(handlerDir);
+      child.removeAllListeners("exit");
+      child.kill();
+    }
+  };
+
+  const startChild = (handlerDir: string) => {
+    stopChild(handlerDir);
+    const child = forkChild(handlerDir);
+    children.set(handlerDir, child);
+    child.on("message", applyMessage);
+    child.on("exit", (code) => {
+      if (children.get(handlerDir) === child) {
+        children.delete(handlerDir);
+        console.error(
+          `${handlerDir} stopped with ${code}, waiting for its metadata to change`
+        );
+      }
+    });
+  };
 
-  await new Promise((resolve, reject) =>
-    packer.run((err, stats) => {
-      if (err) {
-        reject(err);
-      } else {
-        if (stats.hasErrors()) {
-          const info = stats.toJson();
-          throw new Error(JSON.stringify(info.errors, null, 2));
+  const watchHandler = (handlerDir: string) => {
+    const restart = debounce(() => startChild(handlerDir), 100);
+    handlerWatchers.set(
+      handlerDir,
+      watch(path.join(handlersDir, handlerDir), (_event, fileName) => {
+        if (fileName && isMetadataFile(fileName.toString())) {
+          restart();
         }
+      })
+    );
+    startChild(handlerDir);
+  };
 
-        resolve();
-      }
-    })
+  const unwatchHandler = (handlerDir: string) => {
+    const handlerWatcher = handlerWatchers.get(handlerDir);
+    if (handlerWatcher) {
+      handlerWatchers.delete(handlerDir);
+      handlerWatcher.close();
+    }
+    stopChild(handlerDir);
+  };
+
+  const restartAll = debounce(
+    () => Array.from(handlerWatchers.keys()).forEach(startChild),
+    100
   );
+
+  const pruneRemoved = () => {
+    backendConfigUpdate = backendConfigUpdate
+      .then(() =>
+        pruneFunctions(Array.from(handlerWatchers.keys()), amplifyBackendDir)
+      )
+      .then(
+        (pruned) => pruned.forEach((name) => console.log(`Removed ${name}`)),
+        (e) => console.error(e)
+      );
+  };
+
+  const handlersChanged = debounce(async () => {
+    for (const handlerDir of Array.from(handlerWatchers.keys())) {
+      if (!(await isDirectory(path.join(handlersDir, handlerDir)))) {
+        unwatchHandler(handlerDir);
+        if (prune) {
+          pruneRemoved();
+        } else {
+          console.log(
+            `${handlerDir} was removed, its generated output was left in place`
+          );
+        }
+      }
+    }
+    for (const name of await fs.readdir(handlersDir)) {
+      if (
+        !handlerWatchers.has(name) &&
+        (await isDirectory(path.join(handlersDir, name)))
+      ) {
+        watchHandler(name);
+      }
+    }
+  }, 100);
+
+  handlerDirs.forEach(watchHandler);
+  watch(handlersDir, (_event, fileName) => {
+    if (fileName && isDefaultsFile(fileName.toString())) {
+      restartAll();
+    } else {
+      handlersChanged();
+    }
+  });
+
+  const stopAll = () => {
+    Array.from(handlerWatchers.keys()).forEach(unwatchHandler);
+    process.exit();
+  };
+  process.on("SIGINT", stopAll);
+  process.on("SIGTERM", stopAll);
+
+  console.log(`Watching ${handlersDir}`);
+};
+
+// Prints what analyzeFunction finds for each handler and returns whether
+// anything was found
+const analyzeFunctions = async (
+  handlersDir: string,
+  handlerDirs: readonly string[],
+  json: boolean
+) => {
+  const projectDefaults = await loadProjectDefaults(handlersDir);
+  const results: { handler: string; findings: AnalysisFinding[] }[] = [];
+  for (const handlerDir of handlerDirs) {
+    const source = await loadFunctionSource(handlersDir, handlerDir);
+    const metadataErrors = validateLambdaFunction(
+      source.metadata,
+      projectDefaults
+    );
+    if (metadataErrors.length > 0) {
+      throw new Error(formatValidationErrors(handlerDir, metadataErrors));
+    }
+    results.push({ handler: handlerDir, findings: analyzeFunction(source) });
+  }
+
+  if (json) {
+    console.log(JSON.stringify(results, null, 2));
+  } else {
+    results.forEach(({ handler, findings }) =>
+      findings.forEach((finding) =>
+        console.log(formatAnalysisFinding(handler, finding))
+      )
+    );
+  }
+
+  return results.some(({ findings }) => findings.length > 0);
 };
 
 const main = async () => {
   const args = yargs
+    .command("$0", "Generate the Amplify backend resources of the functions")
+    .command(
+      "analyze",
+      "Report environment variables and AWS actions that handlers use without declaring them"
+    )
     .option("functions", {
       alias: "f",
       type: "string",
@@ -194,49 +588,246 @@ const main = async () => {
       type: "string",
       default: "amplify/backend",
       required: true,
+    })
+    .option("dry-run", {
+      type: "boolean",
+      default: false,
+      describe: "Print what would change without writing anything",
+    })
+    .option("check", {
+      type: "boolean",
+      default: false,
+      describe: "Exit with an error when the generated output is out of date",
+    })
+    .option("force", {
+      type: "boolean",
+      default: false,
+      describe: "Rebuild every function even when its build cache is fresh",
+    })
+    .option("concurrency", {
+      alias: "c",
+      type: "number",
+      default: cpus().length,
+      describe: "Maximum number of functions built at the same time",
+    })
+    .option("watch", {
+      alias: "w",
+      type: "boolean",
+      default: false,
+      describe: "Keep running and rebuild functions when their sources change",
+    })
+    .option("prune", {
+      type: "boolean",
+      default: false,
+      describe:
+        "Remove generated functions whose handler directory no longer exists",
+    })
+    .option("json", {
+      type: "boolean",
+      default: false,
+      describe: "Print the analyze findings as JSON",
     }).argv;
 
+  if (args._[0] === "analyze") {
+    const found = await analyzeFunctions(
+      args.functions,
+      await listHandlerDirs(args.functions),
+      args.json
+    );
+    if (found) {
+      process.exitCode = 1;
+    }
+    return;
+  }
+
   console.log(args);
 
   const handlersDir = args.functions;
+  const amplifyBackendDir = path.join(process.cwd(), args["amplify-backend"]);
+  const compareOnly = args["dry-run"] || args.check;
 
   const selfModule = args.$0;
 
+  const finishBuilds = async (messages: BuildMessage[]) => {
+    if (!compareOnly) {
+      await writeBackendConfigEntries(messages, amplifyBackendDir);
+      await writeUserPoolTriggers(messages, amplifyBackendDir);
+      await writeParameterValues(messages, amplifyBackendDir);
+      return;
+    }
+
+    const backendConfigStale = await diffBackendConfig(
+      messages,
+      amplifyBackendDir,
+      args["dry-run"]
+    );
+    const userPoolTriggersStale = await diffUserPoolTriggers(
+      messages,
+      amplifyBackendDir,
+      args["dry-run"]
+    );
+    const teamProviderInfoStale = await diffTeamProviderInfo(
+      messages,
+      amplifyBackendDir,
+      args["dry-run"]
+    );
+    const stale =
+      backendConfigStale ||
+      userPoolTriggersStale ||
+      teamProviderInfoStale ||
+      messages.some((message) => message.stale);
+    if (stale && args.check) {
+      process.exitCode = 1;
+    }
+  };
+
+  // Only functions marked as generated are removed, see generatorMarker
+  const pruneRemovedFunctions = async (handlerDirs: readonly string[]) => {
+    if (!compareOnly) {
+      const pruned = await pruneFunctions(handlerDirs, amplifyBackendDir);
+      pruned.forEach((name) => console.log(`Removed ${name}`));
+      return;
+    }
+
+    const prunable = prunableFunctions(
+      await readBackendConfig(amplifyBackendDir),
+      handlerDirs
+    );
+    prunable.forEach((name) => console.log(`${name} would be removed`));
+    if (prunable.length > 0 && args.check) {
+      process.exitCode = 1;
+    }
+  };
+
+  if (args.watch && compareOnly) {
+    throw new Error("--watch cannot be combined with --dry-run or --check");
+  }
+
   const dirToBuild = args.build;
-  if (dirToBuild) {
-    const amplifyBackendDir = path.join(process.cwd(), args["amplify-backend"]);
-    await buildFunction(handlersDir, dirToBuild, amplifyBackendDir);
+  if (dirToBuild && args.watch) {
+    // Restarted children see metadata changes the watching parent cannot
+    await checkHandlerDependencies(
+      handlersDir,
+      await listHandlerDirs(handlersDir),
+      amplifyBackendDir
+    );
+    const message = await watchFunction(
+      handlersDir,
+      dirToBuild,
+      amplifyBackendDir
+    );
+    if (process.send) {
+      process.send(message);
+    } else {
+      await finishBuilds([message]);
+    }
     return;
   }
 
-  const contents = await fs.readdir(handlersDir);
-  const handlerDirs = (
-    await Promise.all(
-      contents.map(async (name) =>
-        (await fs.stat(path.join(handlersDir, name))).isDirectory()
-          ? name
-          : undefined
-      )
-    )
-  ).filter(isString);
+  if (dirToBuild) {
+    if (!(await fs.stat(path.join(handlersDir, dirToBuild))).isDirectory())
+      return;
 
-  for (const handlerDir of handlerDirs) {
-    // Launch each build in a seperate process because webpack seems
-    // to have a memory leak when run multiple times in the same process
-    const child = fork(selfModule, [
-      "-f",
-      args.functions,
-      "-b",
-      handlerDir,
-      "-a",
-      args["amplify-backend"],
-    ]);
-    await new Promise((resolve, reject) => {
-      child.on("close", (code) =>
-        code ? reject(new Error(`${code}`)) : resolve()
+    if (!process.send) {
+      await checkHandlerDependencies(
+        handlersDir,
+        await listHandlerDirs(handlersDir),
+        amplifyBackendDir
       );
-      child.on("error", (error) => reject(error));
-    });
+    }
+
+    const message = await buildFunction(
+      handlersDir,
+      dirToBuild,
+      amplifyBackendDir,
+      {
+        compareOnly,
+        verbose: args["dry-run"],
+        force: args.force,
+      }
+    );
+
+    // When forked the parent applies every entry to backend-config.json at
+    // once, otherwise parallel builds would overwrite each other's entries
+    if (process.send) {
+      process.send(message);
+    } else {
+      await finishBuilds([message]);
+    }
+    return;
+  }
+
+  const handlerDirs = await listHandlerDirs(handlersDir);
+  await checkHandlerDependencies(
+    handlersDir,
+    handlerDirs,
+    amplifyBackendDir,
+    args.prune
+  );
+
+  if (args.watch) {
+    await watchFunctions(
+      handlersDir,
+      handlerDirs,
+      (handlerDir) =>
+        fork(selfModule, [
+          "-f",
+          args.functions,
+          "-b",
+          handlerDir,
+          "-a",
+          args["amplify-backend"],
+          "--watch",
+        ]),
+      amplifyBackendDir,
+      args.prune
+    );
+    return;
+  }
+
+  const messages: BuildMessage[] = [];
+  const failures: string[] = [];
+  await runWithConcurrency(
+    handlerDirs,
+    args.concurrency,
+    async (handlerDir) => {
+      // Launch each build in a seperate process because webpack seems
+      // to have a memory leak when run multiple times in the same process
+      const child = fork(selfModule, [
+        "-f",
+        args.functions,
+        "-b",
+        handlerDir,
+        "-a",
+        args["amplify-backend"],
+        ...(args["dry-run"] ? ["--dry-run"] : []),
+        ...(args.check ? ["--check"] : []),
+        ...(args.force ? ["--force"] : []),
+      ]);
+      child.on("message", (message: BuildMessage) => messages.push(message));
+      try {
+        await new Promise((resolve, reject) => {
+          child.on("close", (code) =>
+            code ? reject(new Error(`${code}`)) : resolve()
+          );
+          child.on("error", (error) => reject(error));
+        });
+      } catch (e) {
+        failures.push(handlerDir);
+      }
+    }
+  );
+
+  // Entries of the builds that succeeded are still applied so that
+  // backend-config.json matches the templates that were written
+  await finishBuilds(messages);
+
+  if (args.prune) {
+    await pruneRemovedFunctions(handlerDirs);
+  }
+
+  if (failures.length > 0) {
+    throw new Error(`Failed to build ${failures.join(", ")}`);
   }
 };
 
@@ -0,0 +1,100 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import * as path from "path";
+import { fromPairs } from "lodash";
+
+// Stored next to each function's generated output. Paths are relative to
+// the working directory so that the cache stays valid in a fresh checkout.
+export type BuildCache = {
+  settings: string;
+  sources: { [file: string]: string };
+  outputs: { [file: string]: string };
+};
+
+const buildCacheFileName = (outputDir: string) =>
+  path.join(outputDir, ".build-cache.json");
+
+const hash = (contents: string | Buffer) =>
+  createHash("sha256").update(contents).digest("hex");
+
+const hashFile = async (file: string) => {
+  try {
+    return hash(await fs.readFile(file));
+  } catch (e) {
+    if (e.code === "ENOENT") {
+      return undefined;
+    }
+    throw e;
+  }
+};
+
+const hashFiles = async (files: readonly string[], relativeTo: string) =>
+  fromPairs(
+    await Promise.all(
+      files.map(async (file) => [
+        path.relative(relativeTo, file),
+        await hashFile(file),
+      ])
+    )
+  );
+
+// Compares recorded hashes with the files on disk, a missing file never
+// matches
+const matchesDisk = async (
+  hashes: { [file: string]: string },
+  relativeTo: string
+) => {
+  for (const file of Object.keys(hashes)) {
+    if ((await hashFile(path.resolve(relativeTo, file))) !== hashes[file]) {
+      return false;
+    }
+  }
+  return true;
+};
+
+export const hashSettings = (settings: object) =>
+  hash(JSON.stringify(settings));
+
+export const readBuildCache = async (
+  outputDir: string
+): Promise<BuildCache | undefined> => {
+  try {
+    return JSON.parse(await fs.readFile(buildCacheFileName(outputDir), "utf8"));
+  } catch (e) {
+    if (e.code === "ENOENT") {
+      return undefined;
+    }
+    throw e;
+  }
+};
+
+export const isBuildCacheFresh = async (
+  cache: BuildCache | undefined,
+  settings: string,
+  outputDir: string
+) =>
+  !!cache &&
+  cache.settings === settings &&
+  (await matchesDisk(cache.sources, process.cwd())) &&
+  (await matchesDisk(cache.outputs, outputDir));
+
+export const writeBuildCache = async (
+  outputDir: string,
+  settings: string,
+  sourceFiles: readonly string[],
+  outputFiles: readonly string[]
+) => {
+  const cache: BuildCache = {
+    settings,
+    sources: await hashFiles(sourceFiles, process.cwd()),
+    outputs: await hashFiles(
+      outputFiles.map((file) => path.join(outputDir, file)),
+      outputDir
+    ),
+  };
+  await fs.writeFile(
+    buildCacheFileName(outputDir),
+    JSON.stringify(cache, null, 2),
+    "utf8"
+  );
+};
@@ -1,4 +1,13 @@
-import { uniq, fromPairs, merge, flatten } from "lodash";
+import {
+  uniq,
+  uniqBy,
+  fromPairs,
+  merge,
+  flatten,
+  upperFirst,
+  groupBy,
+  isEqual,
+} from "lodash";
 import {
   reduceVariableValueExpression,
   TableAction,
@@ -9,21 +18,76 @@ import {
   userPoolOutputReference,
   TableNameVariable,
   apiTableOutputReference,
+  ApiTable,
+  StorageTable,
+  StorageTableOutput,
+  storageTableOutputReference,
+  reduceTable,
+  tableBaseName,
+  isExternalTable,
   ParameterVariable,
   ResourceOutputVariable,
+  SecretVariable,
+  SsmParameterVariable,
   Parameter,
+  EnvironmentValues,
   Table,
   CoalescedVariable,
   reducePermission,
   reduceEnvionmentVariable,
   Region,
   Runtime,
+  EventSource,
+  reduceEventSource,
+  Schedule,
+  reduceScheduleExpression,
+  FailureDestination,
+  TableStream,
+  tableStream,
+  FunctionSizing,
+  defaultFunctionSizing,
+  defaultRuntime,
+  Bucket,
+  BucketAction,
+  BucketNameVariable,
+  BucketNotification,
+  bucketOutputReference,
+  Layer,
+  reduceLayer,
+  amplifyLayerOutputReference,
+  AmplifyFunction,
+  amplifyFunctionOutputReference,
+  FunctionNameVariable,
+  FunctionQueue,
+  reduceQueue,
+  queueBaseName,
+  QueueMessages,
+  QueueUrlVariable,
+  FunctionTopic,
+  reduceTopic,
+  topicBaseName,
+  TopicMessages,
+  TopicArnVariable,
 } from "./types";
+import { bucketNotificationHandlerSource } from "./bucketNotificationHandler";
+import {
+  optimizePolicyStatements,
+  policyDocument,
+  splitPolicyStatements,
+} from "./policy";
 
 export type CFParameter = {
   type: "Parameter";
   name: string;
   defaultValue?: string;
+  // Only set for parameters declared in the metadata, Amplify supplies the
+  // values of the others
+  environmentValues?: EnvironmentValues;
+};
+
+export type CFResourceDefinition = {
+  name: string;
+  block: object;
 };
 
 export interface ParameterProvider<T> {
@@ -31,7 +95,7 @@ export interface ParameterProvider<T> {
 }
 
 export interface ParametersProvider<T> {
-  toParameters(t: T): Parameter[];
+  toParameters(t: T): CFParameter[];
 }
 
 export const SingleParameterParametersProvider = {
@@ -72,8 +136,26 @@ export interface TableDetailProvider<T> {
   toStreamArnExpression(t: T): object | string;
 }
 
-export interface PolicyProvider<T> {
-  toPolicyStatement(t: T): object;
+export interface PolicyStatementsProvider<T> {
+  toPolicyStatements(t: T): object[];
+}
+
+export interface TriggerPolicyProvider<T> {
+  toTriggerPolicyStatements(t: T): object[];
+}
+
+export interface ResourceProvider<T> {
+  toResources(t: T, index: number): CFResourceDefinition[];
+}
+
+// Queues created in the function's stack, shared by everything that uses them
+export interface QueueProvider<T> {
+  toQueues(t: T): FunctionQueue[];
+}
+
+// Topics created in the function's stack, shared by everything that uses them
+export interface TopicProvider<T> {
+  toTopics(t: T): FunctionTopic[];
 }
 
 const ResourceOutputReferenceParameterProvider: ParameterProvider<ResourceOutputReference> =
@@ -87,11 +169,12 @@ const ResourceOutputReferenceParameterProvider: ParameterProvider<ResourceOutput
     },
   };
 
-const ParameterExpressionProvider: ExpressionProvider<Parameter> = {
-  toExpression: (p: Parameter) => ({
-    Ref: p.name,
-  }),
-};
+const ParameterExpressionProvider: ExpressionProvider<Parameter | CFParameter> =
+  {
+    toExpression: (p: Parameter | CFParameter) => ({
+      Ref: p.name,
+    }),
+  };
 
 const ResourceOutputReferenceExpressionProvider: ExpressionProvider<ResourceOutputReference> =
   {
@@ -102,80 +185,343 @@ const ResourceOutputReferenceExpressionProvider: ExpressionProvider<ResourceOutp
     },
   };
 
-export const TableParameterProvider: ParameterProvider<Table> = {
-  toParameter(table) {
-    return ResourceOutputReferenceParameterProvider.toParameter(
-      apiTableOutputReference(table)
-    );
-  },
+const stringOrParameterExpression = (value: string | Parameter) =>
+  typeof value === "string"
+    ? value
+    : ParameterExpressionProvider.toExpression(value);
+
+const stringOrParameterParameters = (value?: string | Parameter) =>
+  value instanceof Parameter ? valueToParameter(value) : [];
+
+const storageTableOutputs: StorageTableOutput[] = ["Name", "Arn", "StreamArn"];
+
+export const TableParametersProvider: ParametersProvider<Table> = {
+  toParameters: reduceTable(
+    (table) => [
+      ResourceOutputReferenceParameterProvider.toParameter(
+        apiTableOutputReference(table)
+      ),
+    ],
+    (table) =>
+      storageTableOutputs.map((output) =>
+        ResourceOutputReferenceParameterProvider.toParameter(
+          storageTableOutputReference(table, output)
+        )
+      ),
+    ({ name, arn, streamArn }) => [
+      ...stringOrParameterParameters(name),
+      ...stringOrParameterParameters(arn),
+      ...stringOrParameterParameters(streamArn),
+    ]
+  ),
 };
 
 export const TableResourceOutputReferenceProvider: ResourceOutputReferenceProvider<Table> =
   {
-    toOutputReferences: (table) => [apiTableOutputReference(table)],
+    toOutputReferences: reduceTable<ResourceOutputReference[]>(
+      (table) => [apiTableOutputReference(table)],
+      (table) =>
+        storageTableOutputs.map((output) =>
+          storageTableOutputReference(table, output)
+        ),
+      () => []
+    ),
+  };
+
+const apiTableImportExpression = (
+  table: ApiTable,
+  output: StorageTableOutput
+) => {
+  const tableParameter = ResourceOutputReferenceParameterProvider.toParameter(
+    apiTableOutputReference(table)
+  );
+  return {
+    "Fn::ImportValue": {
+      "Fn::Sub": `\${${tableParameter.name}}:GetAtt:${table.tableName}Table:${output}`,
+    },
   };
+};
+
+const storageTableExpression = (
+  table: StorageTable,
+  output: StorageTableOutput
+) =>
+  ResourceOutputReferenceExpressionProvider.toExpression(
+    storageTableOutputReference(table, output)
+  );
+
+const missingExternalTableIdentifier = () =>
+  new Error("External tables need either a name or an arn");
 
 export const TableDetailProvider: TableDetailProvider<Table> = {
-  toNameExpression(table) {
-    const tableParameter = TableParameterProvider.toParameter(table);
-    return {
-      "Fn::ImportValue": {
-        "Fn::Sub": `\${${tableParameter.name}}:GetAtt:${table.tableName}Table:Name`,
-      },
-    };
-  },
-  toArnExpression(table) {
-    const tableParameter = TableParameterProvider.toParameter(table);
-    return {
-      "Fn::ImportValue": {
-        "Fn::Sub": `\${${tableParameter.name}}:GetAtt:${table.tableName}Table:Arn`,
-      },
-    };
-  },
-  toStreamArnExpression(table) {
-    const tableParameter = TableParameterProvider.toParameter(table);
-    return {
-      "Fn::ImportValue": {
-        "Fn::Sub": `\${${tableParameter.name}}:GetAtt:${table.tableName}Table:StreamArn`,
-      },
-    };
-  },
+  toNameExpression: reduceTable(
+    (table) => apiTableImportExpression(table, "Name"),
+    (table) => storageTableExpression(table, "Name"),
+    ({ name, arn }) => {
+      if (name) {
+        return stringOrParameterExpression(name);
+      }
+
+      if (arn) {
+        return {
+          "Fn::Select": [
+            1,
+            {
+              "Fn::Split": ["/", stringOrParameterExpression(arn)],
+            },
+          ],
+        };
+      }
+
+      throw missingExternalTableIdentifier();
+    }
+  ),
+  toArnExpression: reduceTable(
+    (table) => apiTableImportExpression(table, "Arn"),
+    (table) => storageTableExpression(table, "Arn"),
+    ({ name, arn }) => {
+      if (arn) {
+        return stringOrParameterExpression(arn);
+      }
+
+      if (name) {
+        return {
+          "Fn::Sub": [
+            "arn:aws:dynamodb:${region}:${account}:table/${tableName}",
+            {
+              region: {
+                Ref: "AWS::Region",
+              },
+              account: {
+                Ref: "AWS::AccountId",
+              },
+              tableName: stringOrParameterExpression(name),
+            },
+          ],
+        };
+      }
+
+      throw missingExternalTableIdentifier();
+    }
+  ),
+  toStreamArnExpression: reduceTable(
+    (table) => apiTableImportExpression(table, "StreamArn"),
+    (table) => storageTableExpression(table, "StreamArn"),
+    (table) => {
+      if (!table.streamArn) {
+        throw new Error(
+          `External table ${tableBaseName(
+            table
+          )} needs a streamArn to be used as an event source`
+        );
+      }
+
+      return stringOrParameterExpression(table.streamArn);
+    }
+  ),
 };
 
-const policyActionForTableAction = (action: TableAction) => {
+const policyActionsForTableAction = (action: TableAction): string[] => {
   switch (action) {
     case "ReadItem":
-      return "dynamodb:GetItem";
+    case "TransactGetItems":
+      return ["dynamodb:GetItem"];
+    // There are no IAM actions for transactional writes, each item in the
+    // transaction is authorized by the action it performs
+    case "TransactWriteItems":
+      return [
+        "dynamodb:PutItem",
+        "dynamodb:UpdateItem",
+        "dynamodb:DeleteItem",
+        "dynamodb:ConditionCheckItem",
+      ];
     case "UpdateItem":
-      return "dynamodb:UpdateItem";
+    case "GetItem":
+    case "Query":
+    case "Scan":
+    case "PutItem":
+    case "DeleteItem":
+    case "BatchGetItem":
+    case "BatchWriteItem":
+    case "ConditionCheckItem":
+    case "DescribeTable":
+      return [`dynamodb:${action}`];
   }
 };
 
-const policyActionForUserPoolAction = (action: UserPoolAction) => {
-  switch (action) {
-    case "AdminDeleteUser":
-    case "AdminGetUser":
-    case "AdminCreateUser":
-    case "AdminLinkProviderForUser":
-    case "ListUsers":
-      return `cognito-idp:${action}`;
+// External tables may live in another account or region, so their ARN is
+// used as given instead of being rebuilt from the table name
+const tableResourceArnExpression = (table: Table, resourcePath: string) => {
+  if (isExternalTable(table)) {
+    const arnExpression = TableDetailProvider.toArnExpression(table);
+    return resourcePath
+      ? { "Fn::Join": ["", [arnExpression, resourcePath]] }
+      : arnExpression;
   }
+
+  return {
+    "Fn::Sub": [
+      `arn:aws:dynamodb:\${region}:\${account}:table/\${tableName}${resourcePath}`,
+      {
+        region: {
+          Ref: "AWS::Region",
+        },
+        account: {
+          Ref: "AWS::AccountId",
+        },
+        tableName: TableDetailProvider.toNameExpression(table),
+      },
+    ],
+  };
 };
 
-const PermissionPolicyProvider: PolicyProvider<Permission> = {
-  toPolicyStatement: reducePermission<object>(
-    (permission) => {
-      const table = permission.table;
-      const tableParam = ResourceOutputReferenceParameterProvider.toParameter(
-        apiTableOutputReference(table)
-      );
-      return {
-        Effect: "Allow",
-        Action: permission.actions.map(policyActionForTableAction),
-        Resource: [
+const tableIndexResourcePaths = (indexes?: "all" | readonly string[]) => {
+  if (!indexes) {
+    return [];
+  }
+
+  if (indexes === "all") {
+    return ["/index/*"];
+  }
+
+  return indexes.map((index) => `/index/${index}`);
+};
+
+const bucketNameExpression = (bucket: Bucket) =>
+  ResourceOutputReferenceExpressionProvider.toExpression(
+    bucketOutputReference(bucket)
+  );
+
+const bucketArnExpression = (bucket: Bucket, resourcePath = "") => ({
+  "Fn::Sub": [
+    `arn:aws:s3:::\${bucketName}${resourcePath}`,
+    {
+      bucketName: bucketNameExpression(bucket),
+    },
+  ],
+});
+
+const functionNameExpression = (lambdaFunction: AmplifyFunction) =>
+  ResourceOutputReferenceExpressionProvider.toExpression(
+    amplifyFunctionOutputReference(lambdaFunction, "Name")
+  );
+
+const functionArnExpression = (lambdaFunction: AmplifyFunction) =>
+  ResourceOutputReferenceExpressionProvider.toExpression(
+    amplifyFunctionOutputReference(lambdaFunction, "Arn")
+  );
+
+const functionQueueResourceName = ({ queueName }: FunctionQueue) =>
+  `Queue${upperFirst(queueName.replace(/[^A-Za-z0-9]/g, ""))}`;
+
+const queueArnExpression = reduceQueue<string | object>(
+  (queue) => ({
+    "Fn::GetAtt": [functionQueueResourceName(queue), "Arn"],
+  }),
+  ({ arn }) => stringOrParameterExpression(arn)
+);
+
+// The URL of an external queue is built from the region, account and name in
+// its ARN
+const queueUrlExpression = reduceQueue<string | object>(
+  (queue) => ({
+    Ref: functionQueueResourceName(queue),
+  }),
+  ({ arn }) => {
+    const arnPart = (index: number) => ({
+      "Fn::Select": [
+        index,
+        {
+          "Fn::Split": [":", stringOrParameterExpression(arn)],
+        },
+      ],
+    });
+    return {
+      "Fn::Join": [
+        "",
+        [
+          "https://sqs.",
+          arnPart(3),
+          ".",
           {
+            Ref: "AWS::URLSuffix",
+          },
+          "/",
+          arnPart(4),
+          "/",
+          arnPart(5),
+        ],
+      ],
+    };
+  }
+);
+
+const queueParameters = reduceQueue<CFParameter[]>(
+  () => [],
+  ({ arn }) => stringOrParameterParameters(arn)
+);
+
+const functionQueues = reduceQueue<FunctionQueue[]>(
+  (queue) => [queue],
+  () => []
+);
+
+const functionTopicResourceName = ({ topicName }: FunctionTopic) =>
+  `Topic${upperFirst(topicName.replace(/[^A-Za-z0-9]/g, ""))}`;
+
+const topicArnExpression = reduceTopic<string | object>(
+  (topic) => ({
+    Ref: functionTopicResourceName(topic),
+  }),
+  ({ arn }) => stringOrParameterExpression(arn)
+);
+
+const topicParameters = reduceTopic<CFParameter[]>(
+  () => [],
+  ({ arn }) => stringOrParameterParameters(arn)
+);
+
+const functionTopics = reduceTopic<FunctionTopic[]>(
+  (topic) => [topic],
+  () => []
+);
+
+const bucketObjectActions: readonly BucketAction[] = [
+  "GetObject",
+  "PutObject",
+  "DeleteObject",
+];
+
+const policyActionForUserPoolAction = (action: UserPoolAction) =>
+  `cognito-idp:${action}`;
+
+const PermissionPolicyProvider: PolicyStatementsProvider<Permission> = {
+  toPolicyStatements: reducePermission<object[]>(
+    (permission) => [
+      {
+        Effect: "Allow",
+        Action: uniq(
+          flatten(permission.actions.map(policyActionsForTableAction))
+        ),
+        Resource: ["", ...tableIndexResourcePaths(permission.indexes)].map(
+          (resourcePath) =>
+            tableResourceArnExpression(permission.table, resourcePath)
+        ),
+      },
+    ],
+    (permission) => {
+      const userPoolIdExpression =
+        ResourceOutputReferenceExpressionProvider.toExpression(
+          userPoolOutputReference(permission.userPool, "UserPoolId")
+        );
+
+      return [
+        {
+          Effect: "Allow",
+          Action: permission.actions.map(policyActionForUserPoolAction),
+          Resource: {
             "Fn::Sub": [
-              "arn:aws:dynamodb:${region}:${account}:table/${tableName}",
+              "arn:aws:cognito-idp:${region}:${account}:userpool/${userPoolId}",
               {
                 region: {
                   Ref: "AWS::Region",
@@ -183,72 +529,107 @@ const PermissionPolicyProvider: PolicyProvider<Permission> = {
                 account: {
                   Ref: "AWS::AccountId",
                 },
-                tableName: {
-                  "Fn::ImportValue": {
-                    "Fn::Sub": `\${${tableParam.name}}:GetAtt:${table.tableName}Table:Name`,
-                  },
-                },
+                userPoolId: userPoolIdExpression,
               },
             ],
           },
-        ],
-      };
+        },
+      ];
     },
     (permission) => {
-      const userPoolIdExpression =
-        ResourceOutputReferenceExpressionProvider.toExpression(
-          userPoolOutputReference(permission.userPool, "UserPoolId")
-        );
-
-      return {
-        Effect: "Allow",
-        Action: permission.actions.map(policyActionForUserPoolAction),
-        Resource: {
-          "Fn::Sub": [
-            "arn:aws:cognito-idp:${region}:${account}:userpool/${userPoolId}",
-            {
-              region: {
-                Ref: "AWS::Region",
-              },
-              account: {
-                Ref: "AWS::AccountId",
-              },
-              userPoolId: userPoolIdExpression,
-            },
-          ],
+      return [
+        {
+          Effect: "Allow",
+          Action: ["ses:SendEmail"],
+          Resource: {
+            "Fn::Sub": `\${${permission.identity.name}}`,
+          },
         },
-      };
+      ];
     },
     (permission) => {
-      return {
-        Effect: "Allow",
-        Action: ["ses:SendEmail"],
-        Resource: {
-          "Fn::Sub": `\${${permission.identity.name}}`,
+      return [
+        {
+          Effect: "Allow",
+          Action: permission.actions,
+          Resource: permission.resources.map((resource) =>
+            typeof resource === "string"
+              ? resource
+              : ResourceOutputReferenceExpressionProvider.toExpression(resource)
+          ),
         },
-      };
+      ];
     },
-    (permission) => {
-      return {
+    ({ bucket, actions, prefix = "" }) => {
+      const objectActions = uniq(actions).filter((action) =>
+        bucketObjectActions.includes(action)
+      );
+
+      // ListBucket is scoped through the s3:prefix condition, which object
+      // actions don't have, so it needs a statement of its own
+      return [
+        ...(actions.includes("ListBucket")
+          ? [
+              {
+                Effect: "Allow",
+                Action: ["s3:ListBucket"],
+                Resource: bucketArnExpression(bucket),
+                ...(prefix
+                  ? {
+                      Condition: {
+                        StringLike: {
+                          "s3:prefix": [`${prefix}*`],
+                        },
+                      },
+                    }
+                  : {}),
+              },
+            ]
+          : []),
+        ...(objectActions.length > 0
+          ? [
+              {
+                Effect: "Allow",
+                Action: objectActions.map((action) => `s3:${action}`),
+                Resource: bucketArnExpression(bucket, `/${prefix}*`),
+              },
+            ]
+          : []),
+      ];
+    },
+    // Versions and aliases of the function are invoked through qualified ARNs
+    ({ lambdaFunction, actions }) => [
+      {
         Effect: "Allow",
-        Action: permission.actions,
-        Resource: permission.resources.map((resource) =>
-          typeof resource === "string"
-            ? resource
-            : ResourceOutputReferenceExpressionProvider.toExpression(resource)
-        ),
-      };
-    }
+        Action: uniq(actions).map((action) => `lambda:${action}`),
+        Resource: [
+          functionArnExpression(lambdaFunction),
+          {
+            "Fn::Join": [":", [functionArnExpression(lambdaFunction), "*"]],
+          },
+        ],
+      },
+    ],
+    ({ queue, actions }) => [
+      {
+        Effect: "Allow",
+        Action: uniq(actions).map((action) => `sqs:${action}`),
+        Resource: queueArnExpression(queue),
+      },
+    ],
+    ({ topic, actions }) => [
+      {
+        Effect: "Allow",
+        Action: uniq(actions).map((action) => `sns:${action}`),
+        Resource: topicArnExpression(topic),
+      },
+    ]
   ),
 };
 
 const PermissionParametersProvider: ParametersProvider<Permission> = {
   toParameters: reducePermission(
-    ({ table }) => [
-      ResourceOutputReferenceParameterProvider.toParameter(
-        apiTableOutputReference(table)
-      ),
-    ],
+    ({ table }) => TableParametersProvider.toParameters(table),
     ({ userPool }) => [
       ResourceOutputReferenceParameterProvider.toParameter(
         userPoolOutputReference(userPool, "UserPoolId")
@@ -258,7 +639,19 @@ const PermissionParametersProvider: ParametersProvider<Permission> = {
     ({ resources }) =>
       resources
         .filter(isResourceOutputReference)
-        .map(ResourceOutputReferenceParameterProvider.toParameter)
+        .map(ResourceOutputReferenceParameterProvider.toParameter),
+    ({ bucket }) => [
+      ResourceOutputReferenceParameterProvider.toParameter(
+        bucketOutputReference(bucket)
+      ),
+    ],
+    ({ lambdaFunction }) => [
+      ResourceOutputReferenceParameterProvider.toParameter(
+        amplifyFunctionOutputReference(lambdaFunction, "Arn")
+      ),
+    ],
+    ({ queue }) => queueParameters(queue),
+    ({ topic }) => topicParameters(topic)
   ),
 };
 
@@ -269,10 +662,17 @@ const isResourceOutputReference = (
 const PermissionResourceOutputReferenceProvider: ResourceOutputReferenceProvider<Permission> =
   {
     toOutputReferences: reducePermission(
-      ({ table }) => [apiTableOutputReference(table)],
+      ({ table }) =>
+        TableResourceOutputReferenceProvider.toOutputReferences(table),
       ({ userPool }) => [userPoolOutputReference(userPool, "UserPoolId")],
       () => [],
-      ({ resources }) => resources.filter(isResourceOutputReference)
+      ({ resources }) => resources.filter(isResourceOutputReference),
+      ({ bucket }) => [bucketOutputReference(bucket)],
+      ({ lambdaFunction }) => [
+        amplifyFunctionOutputReference(lambdaFunction, "Arn"),
+      ],
+      () => [],
+      () => []
     ),
   };
 
@@ -282,6 +682,32 @@ const PermissionConditionProvider: ConditionProvider<Permission> = {
   },
 };
 
+const PermissionQueueProvider: QueueProvider<Permission> = {
+  toQueues: reducePermission(
+    () => [],
+    () => [],
+    () => [],
+    () => [],
+    () => [],
+    () => [],
+    ({ queue }) => functionQueues(queue),
+    () => []
+  ),
+};
+
+const PermissionTopicProvider: TopicProvider<Permission> = {
+  toTopics: reducePermission(
+    () => [],
+    () => [],
+    () => [],
+    () => [],
+    () => [],
+    () => [],
+    () => [],
+    ({ topic }) => functionTopics(topic)
+  ),
+};
+
 const valueToParameter = (
   value: ResourceOutputReference | Parameter
 ): CFParameter[] => {
@@ -294,6 +720,7 @@ const valueToParameter = (
       type: "Parameter",
       name: value.name,
       defaultValue: value.defaultValue,
+      environmentValues: value.environmentValues,
     },
   ];
 };
@@ -302,11 +729,7 @@ const EnvironmentVariableParametersProvider: ParametersProvider<EnvironmentVaria
   {
     toParameters(env) {
       if (env instanceof TableNameVariable) {
-        return [
-          ResourceOutputReferenceParameterProvider.toParameter(
-            apiTableOutputReference(env.table)
-          ),
-        ];
+        return TableParametersProvider.toParameters(env.table);
       }
 
       if (env instanceof ParameterVariable) {
@@ -319,10 +742,48 @@ const EnvironmentVariableParametersProvider: ParametersProvider<EnvironmentVaria
         ];
       }
 
-      return [...valueToParameter(env.first), ...valueToParameter(env.second)];
-    },
-  };
-
+      if (env instanceof BucketNameVariable) {
+        return [
+          ResourceOutputReferenceParameterProvider.toParameter(
+            bucketOutputReference(env.bucket)
+          ),
+        ];
+      }
+
+      if (env instanceof SecretVariable) {
+        return [
+          ...stringOrParameterParameters(env.secret),
+          ...stringOrParameterParameters(env.kmsKey),
+        ];
+      }
+
+      if (env instanceof SsmParameterVariable) {
+        return [
+          ...stringOrParameterParameters(env.parameterName),
+          ...stringOrParameterParameters(env.kmsKey),
+        ];
+      }
+
+      if (env instanceof FunctionNameVariable) {
+        return [
+          ResourceOutputReferenceParameterProvider.toParameter(
+            amplifyFunctionOutputReference(env.lambdaFunction, "Name")
+          ),
+        ];
+      }
+
+      if (env instanceof QueueUrlVariable) {
+        return queueParameters(env.queue);
+      }
+
+      if (env instanceof TopicArnVariable) {
+        return topicParameters(env.topic);
+      }
+
+      return [...valueToParameter(env.first), ...valueToParameter(env.second)];
+    },
+  };
+
 const variableValueExpressionToCfExpression = reduceVariableValueExpression(
   ParameterExpressionProvider.toExpression,
   (resource) => ({
@@ -336,153 +797,1169 @@ const conditionNameForEnv = (env: CoalescedVariable) =>
 const EnvironmentVariableVariableProvider: VariableProvider<EnvironmentVariable> =
   {
     toVariable: reduceEnvionmentVariable<CFVariableDefinition>(
-      ({ table }) => {
-        const tableOutputRef = apiTableOutputReference(table);
-        const tableParameter =
-          ResourceOutputReferenceParameterProvider.toParameter(tableOutputRef);
-        return {
-          name: `${table.tableName}_table_name`.toUpperCase(),
+      ({ table, name }) => ({
+        name: name || `${tableBaseName(table)}_table_name`.toUpperCase(),
+        block: TableDetailProvider.toNameExpression(table),
+      }),
+      ({ parameter, name }) => ({
+        name,
+        block: ParameterExpressionProvider.toExpression(parameter),
+      }),
+
+      ({ name, reference }) => ({
+        name,
+        block:
+          ResourceOutputReferenceExpressionProvider.toExpression(reference),
+      }),
+
+      (coalescedVar) => ({
+        name: coalescedVar.name,
+        block: {
+          "Fn::If": [
+            conditionNameForEnv(coalescedVar),
+            variableValueExpressionToCfExpression(coalescedVar.first),
+            variableValueExpressionToCfExpression(coalescedVar.second),
+          ],
+        },
+      }),
+
+      ({ bucket, name }) => ({
+        name: name || `${bucket.storageName}_bucket_name`.toUpperCase(),
+        block: bucketNameExpression(bucket),
+      }),
+
+      ({ name, secret }) => ({
+        name,
+        block: stringOrParameterExpression(secret),
+      }),
+
+      ({ name, parameterName }) => ({
+        name,
+        block: stringOrParameterExpression(parameterName),
+      }),
+
+      ({ lambdaFunction, name }) => ({
+        name:
+          name || `${lambdaFunction.functionName}_function_name`.toUpperCase(),
+        block: functionNameExpression(lambdaFunction),
+      }),
+
+      ({ queue, name }) => ({
+        name:
+          name ||
+          `${queueBaseName(queue).replace(
+            /[^A-Za-z0-9]/g,
+            "_"
+          )}_queue_url`.toUpperCase(),
+        block: queueUrlExpression(queue),
+      }),
+
+      ({ topic, name }) => ({
+        name:
+          name ||
+          `${topicBaseName(topic).replace(
+            /[^A-Za-z0-9]/g,
+            "_"
+          )}_topic_arn`.toUpperCase(),
+        block: topicArnExpression(topic),
+      })
+    ),
+  };
+
+const variableValueExpressionToResourceOutputReferences =
+  reduceVariableValueExpression(
+    () => [],
+    (reference) => [reference]
+  );
+
+const EnvironmentVariableResourceOutputReferenceProvider: ResourceOutputReferenceProvider<EnvironmentVariable> =
+  {
+    toOutputReferences: reduceEnvionmentVariable<ResourceOutputReference[]>(
+      ({ table }) =>
+        TableResourceOutputReferenceProvider.toOutputReferences(table),
+      () => [],
+      ({ reference }) => [reference],
+      ({ first, second }) => [
+        ...variableValueExpressionToResourceOutputReferences(first),
+        ...variableValueExpressionToResourceOutputReferences(second),
+      ],
+      ({ bucket }) => [bucketOutputReference(bucket)],
+      () => [],
+      () => [],
+      ({ lambdaFunction }) => [
+        amplifyFunctionOutputReference(lambdaFunction, "Name"),
+      ],
+      () => [],
+      () => []
+    ),
+  };
+
+const EnvironmentVariableConditionProvider: ConditionProvider<EnvironmentVariable> =
+  {
+    toConditions: reduceEnvionmentVariable(
+      () => [],
+      () => [],
+      () => [],
+      (c) => [
+        {
+          name: conditionNameForEnv(c),
           block: {
-            "Fn::ImportValue": {
-              "Fn::Sub": `\${${tableParameter.name}}:GetAtt:${table.tableName}Table:Name`,
+            "Fn::Not": [
+              {
+                "Fn::Equals": [
+                  variableValueExpressionToCfExpression(c.first),
+                  "",
+                ],
+              },
+            ],
+          },
+        },
+      ],
+      () => [],
+      () => [],
+      () => [],
+      () => [],
+      () => [],
+      () => []
+    ),
+  };
+
+const EnvironmentVariableQueueProvider: QueueProvider<EnvironmentVariable> = {
+  toQueues: reduceEnvionmentVariable(
+    () => [],
+    () => [],
+    () => [],
+    () => [],
+    () => [],
+    () => [],
+    () => [],
+    () => [],
+    ({ queue }) => functionQueues(queue),
+    () => []
+  ),
+};
+
+const EnvironmentVariableTopicProvider: TopicProvider<EnvironmentVariable> = {
+  toTopics: reduceEnvionmentVariable(
+    () => [],
+    () => [],
+    () => [],
+    () => [],
+    () => [],
+    () => [],
+    () => [],
+    () => [],
+    () => [],
+    ({ topic }) => functionTopics(topic)
+  ),
+};
+
+const isArn = (value: string | Parameter) =>
+  typeof value === "string" && value.startsWith("arn:");
+
+// Only decrypting through the service that stores the value is allowed
+const kmsDecryptStatement = (kmsKey: string | Parameter, service: string) => ({
+  Effect: "Allow",
+  Action: ["kms:Decrypt"],
+  Resource: isArn(kmsKey)
+    ? kmsKey
+    : {
+        "Fn::Sub": [
+          "arn:aws:kms:${AWS::Region}:${AWS::AccountId}:key/${key}",
+          { key: stringOrParameterExpression(kmsKey) },
+        ],
+      },
+  Condition: {
+    StringEquals: {
+      "kms:ViaService": {
+        "Fn::Sub": `${service}.\${AWS::Region}.amazonaws.com`,
+      },
+    },
+  },
+});
+
+// ARNs of secrets end with a random suffix that their names do not include
+const secretArnExpression = (secret: string | Parameter) =>
+  isArn(secret)
+    ? secret
+    : {
+        "Fn::Sub": [
+          "arn:aws:secretsmanager:${AWS::Region}:${AWS::AccountId}:secret:${secret}-??????",
+          { secret: stringOrParameterExpression(secret) },
+        ],
+      };
+
+const ssmParameterArnExpression = (parameterName: string | Parameter) => ({
+  "Fn::Sub": [
+    "arn:aws:ssm:${AWS::Region}:${AWS::AccountId}:parameter${parameterName}",
+    {
+      parameterName:
+        typeof parameterName === "string" && !parameterName.startsWith("/")
+          ? `/${parameterName}`
+          : stringOrParameterExpression(parameterName),
+    },
+  ],
+});
+
+const ssmParameterStatement = (parameterName: string | Parameter) => {
+  if (typeof parameterName === "string" && parameterName.endsWith("/")) {
+    return {
+      Effect: "Allow",
+      Action: [
+        "ssm:GetParameter",
+        "ssm:GetParameters",
+        "ssm:GetParametersByPath",
+      ],
+      Resource: [
+        ssmParameterArnExpression(parameterName.replace(/\/+$/, "")),
+        ssmParameterArnExpression(`${parameterName}*`),
+      ],
+    };
+  }
+
+  return {
+    Effect: "Allow",
+    Action: ["ssm:GetParameter", "ssm:GetParameters"],
+    Resource: ssmParameterArnExpression(parameterName),
+  };
+};
+
+const EnvironmentVariablePolicyStatementsProvider: PolicyStatementsProvider<EnvironmentVariable> =
+  {
+    toPolicyStatements: reduceEnvionmentVariable<object[]>(
+      () => [],
+      () => [],
+      () => [],
+      () => [],
+      () => [],
+      ({ secret, kmsKey }) => [
+        {
+          Effect: "Allow",
+          Action: ["secretsmanager:GetSecretValue"],
+          Resource: secretArnExpression(secret),
+        },
+        ...(kmsKey ? [kmsDecryptStatement(kmsKey, "secretsmanager")] : []),
+      ],
+      ({ parameterName, kmsKey }) => [
+        ssmParameterStatement(parameterName),
+        ...(kmsKey ? [kmsDecryptStatement(kmsKey, "ssm")] : []),
+      ],
+      () => [],
+      () => [],
+      () => []
+    ),
+  };
+
+const scheduleExpressionToCfExpression = reduceScheduleExpression(
+  ({ value, unit }) => `rate(${value} ${value === 1 ? unit : `${unit}s`})`,
+  ({ expression }) => `cron(${expression})`
+);
+
+const scheduleToggledEnvironments = (schedule: Schedule) => {
+  const enabled = schedule.enabled !== false;
+  return Object.keys(schedule.environments || {})
+    .filter((env) => (schedule.environments || {})[env] !== enabled)
+    .sort();
+};
+
+const conditionNameForEnvironments = (envs: readonly string[]) =>
+  `EnvIs${envs.map(upperFirst).join("Or")}`;
+
+// Event sources after the first get their index appended so that a
+// function with a single source keeps its original logical ids
+const eventSourceResourceName = (name: string, index: number) =>
+  index === 0 ? name : `${name}${index}`;
+
+const failureDestinationArnExpression = (
+  destination: FailureDestination
+): string | object =>
+  typeof destination.arn === "string"
+    ? destination.arn
+    : variableValueExpressionToCfExpression(destination.arn);
+
+const failureDestinationParameters = (
+  destination?: FailureDestination
+): CFParameter[] =>
+  destination && typeof destination.arn !== "string"
+    ? valueToParameter(destination.arn)
+    : [];
+
+const failureDestinationOutputReferences = (
+  destination?: FailureDestination
+): ResourceOutputReference[] =>
+  destination && typeof destination.arn !== "string"
+    ? variableValueExpressionToResourceOutputReferences(destination.arn)
+    : [];
+
+const EventSourceParametersProvider: ParametersProvider<EventSource> = {
+  toParameters: reduceEventSource(
+    TableParametersProvider.toParameters,
+    (stream) => [
+      ...TableParametersProvider.toParameters(stream.table),
+      ...failureDestinationParameters(stream.onFailure),
+    ],
+    () => [],
+    ({ bucket }) => [
+      ResourceOutputReferenceParameterProvider.toParameter(
+        bucketOutputReference(bucket)
+      ),
+    ],
+    () => [],
+    ({ queue }) => queueParameters(queue),
+    ({ topic }) => topicParameters(topic)
+  ),
+};
+
+const EventSourceConditionProvider: ConditionProvider<EventSource> = {
+  toConditions: reduceEventSource<CFConditionDefinition[]>(
+    () => [],
+    () => [],
+    (schedule) => {
+      const toggledEnvironments = scheduleToggledEnvironments(schedule);
+      const envConditions = toggledEnvironments.map((env) => ({
+        "Fn::Equals": [
+          {
+            Ref: "env",
+          },
+          env,
+        ],
+      }));
+
+      if (envConditions.length === 0) {
+        return [];
+      }
+
+      return [
+        {
+          name: conditionNameForEnvironments(toggledEnvironments),
+          block:
+            envConditions.length === 1
+              ? envConditions[0]
+              : { "Fn::Or": envConditions },
+        },
+      ];
+    },
+    () => [],
+    () => [],
+    () => [],
+    () => []
+  ),
+};
+
+const EventSourceResourceOutputReferenceProvider: ResourceOutputReferenceProvider<EventSource> =
+  {
+    toOutputReferences: reduceEventSource<ResourceOutputReference[]>(
+      TableResourceOutputReferenceProvider.toOutputReferences,
+      (stream) => [
+        ...TableResourceOutputReferenceProvider.toOutputReferences(
+          stream.table
+        ),
+        ...failureDestinationOutputReferences(stream.onFailure),
+      ],
+      () => [],
+      ({ bucket }) => [bucketOutputReference(bucket)],
+      () => [],
+      () => [],
+      () => []
+    ),
+  };
+
+const tableStreamTriggerPolicyStatements = (stream: TableStream): object[] => [
+  {
+    Effect: "Allow",
+    Action: [
+      "dynamodb:DescribeStream",
+      "dynamodb:GetRecords",
+      "dynamodb:GetShardIterator",
+      "dynamodb:ListStreams",
+    ],
+    Resource: TableDetailProvider.toStreamArnExpression(stream.table),
+  },
+  ...(stream.onFailure
+    ? [
+        {
+          Effect: "Allow",
+          Action: [
+            stream.onFailure.type === "sqs" ? "sqs:SendMessage" : "sns:Publish",
+          ],
+          Resource: failureDestinationArnExpression(stream.onFailure),
+        },
+      ]
+    : []),
+];
+
+const EventSourceTriggerPolicyProvider: TriggerPolicyProvider<EventSource> = {
+  toTriggerPolicyStatements: reduceEventSource<object[]>(
+    (table) => tableStreamTriggerPolicyStatements(tableStream(table)),
+    tableStreamTriggerPolicyStatements,
+    () => [],
+    () => [],
+    () => [],
+    ({ queue }) => [
+      {
+        Effect: "Allow",
+        Action: [
+          "sqs:ChangeMessageVisibility",
+          "sqs:DeleteMessage",
+          "sqs:GetQueueAttributes",
+          "sqs:ReceiveMessage",
+        ],
+        Resource: queueArnExpression(queue),
+      },
+    ],
+    () => []
+  ),
+};
+
+const tableStreamResources = (
+  stream: TableStream,
+  index: number
+): CFResourceDefinition[] => [
+  {
+    name: eventSourceResourceName("LambdaEventSourceMapping", index),
+    block: {
+      Type: "AWS::Lambda::EventSourceMapping",
+      DependsOn: ["LambdaTriggerPolicy", "LambdaExecutionRole"],
+      Properties: {
+        BatchSize: stream.batchSize ?? 1,
+        MaximumBatchingWindowInSeconds:
+          stream.maximumBatchingWindowInSeconds ?? 1,
+        Enabled: true,
+        EventSourceArn: TableDetailProvider.toStreamArnExpression(stream.table),
+        FunctionName: {
+          "Fn::GetAtt": ["LambdaFunction", "Arn"],
+        },
+        StartingPosition: stream.startingPosition ?? "LATEST",
+        FilterCriteria: stream.filterPatterns
+          ? {
+              Filters: stream.filterPatterns.map((pattern) => ({
+                Pattern: JSON.stringify(pattern),
+              })),
+            }
+          : undefined,
+        BisectBatchOnFunctionError: stream.bisectBatchOnFunctionError,
+        MaximumRetryAttempts: stream.maximumRetryAttempts,
+        MaximumRecordAgeInSeconds: stream.maximumRecordAgeInSeconds,
+        ParallelizationFactor: stream.parallelizationFactor,
+        DestinationConfig: stream.onFailure
+          ? {
+              OnFailure: {
+                Destination: failureDestinationArnExpression(stream.onFailure),
+              },
+            }
+          : undefined,
+      },
+    },
+  },
+];
+
+const queueMessagesResources = (
+  messages: QueueMessages,
+  index: number
+): CFResourceDefinition[] => [
+  {
+    name: eventSourceResourceName("LambdaEventSourceMapping", index),
+    block: {
+      Type: "AWS::Lambda::EventSourceMapping",
+      DependsOn: ["LambdaTriggerPolicy", "LambdaExecutionRole"],
+      Properties: {
+        BatchSize: messages.batchSize,
+        MaximumBatchingWindowInSeconds: messages.maximumBatchingWindowInSeconds,
+        Enabled: true,
+        EventSourceArn: queueArnExpression(messages.queue),
+        FunctionName: {
+          "Fn::GetAtt": ["LambdaFunction", "Arn"],
+        },
+        FilterCriteria: messages.filterPatterns
+          ? {
+              Filters: messages.filterPatterns.map((pattern) => ({
+                Pattern: JSON.stringify(pattern),
+              })),
+            }
+          : undefined,
+        FunctionResponseTypes: messages.reportBatchItemFailures
+          ? ["ReportBatchItemFailures"]
+          : undefined,
+        ScalingConfig:
+          messages.maximumConcurrency !== undefined
+            ? { MaximumConcurrency: messages.maximumConcurrency }
+            : undefined,
+      },
+    },
+  },
+];
+
+const topicMessagesResources = (
+  messages: TopicMessages,
+  index: number
+): CFResourceDefinition[] => {
+  const permissionName = eventSourceResourceName(
+    "PermissionForSnsToInvokeLambda",
+    index
+  );
+  return [
+    {
+      name: permissionName,
+      block: {
+        Type: "AWS::Lambda::Permission",
+        Properties: {
+          FunctionName: {
+            Ref: "LambdaFunction",
+          },
+          Action: "lambda:InvokeFunction",
+          Principal: "sns.amazonaws.com",
+          SourceArn: topicArnExpression(messages.topic),
+        },
+      },
+    },
+    {
+      name: eventSourceResourceName("SnsSubscription", index),
+      block: {
+        Type: "AWS::SNS::Subscription",
+        DependsOn: [permissionName],
+        Properties: {
+          Protocol: "lambda",
+          Endpoint: {
+            "Fn::GetAtt": ["LambdaFunction", "Arn"],
+          },
+          TopicArn: topicArnExpression(messages.topic),
+          FilterPolicy: messages.filterPolicy,
+          FilterPolicyScope: messages.filterPolicyScope,
+        },
+      },
+    },
+  ];
+};
+
+// Notifications on buckets owned by other stacks are managed through a custom
+// resource shared by all of the function's bucket notifications
+const bucketNotificationHandlerResources: CFResourceDefinition[] = [
+  {
+    name: "BucketNotificationHandlerRole",
+    block: {
+      Type: "AWS::IAM::Role",
+      Properties: {
+        AssumeRolePolicyDocument: {
+          Version: "2012-10-17",
+          Statement: [
+            {
+              Effect: "Allow",
+              Principal: {
+                Service: ["lambda.amazonaws.com"],
+              },
+              Action: ["sts:AssumeRole"],
+            },
+          ],
+        },
+        ManagedPolicyArns: [
+          "arn:aws:iam::aws:policy/service-role/AWSLambdaBasicExecutionRole",
+        ],
+      },
+    },
+  },
+  {
+    name: "BucketNotificationHandler",
+    block: {
+      Type: "AWS::Lambda::Function",
+      Properties: {
+        Handler: "index.handler",
+        Role: {
+          "Fn::GetAtt": ["BucketNotificationHandlerRole", "Arn"],
+        },
+        Runtime: defaultRuntime,
+        Timeout: "60",
+        Code: {
+          ZipFile: bucketNotificationHandlerSource,
+        },
+      },
+    },
+  },
+];
+
+const bucketNotificationResources = (
+  notification: BucketNotification,
+  index: number
+): CFResourceDefinition[] => {
+  const permissionName = eventSourceResourceName(
+    "BucketNotificationPermission",
+    index
+  );
+  const policyName = eventSourceResourceName(
+    "BucketNotificationHandlerPolicy",
+    index
+  );
+  return [
+    ...bucketNotificationHandlerResources,
+    {
+      name: permissionName,
+      block: {
+        Type: "AWS::Lambda::Permission",
+        Properties: {
+          FunctionName: {
+            Ref: "LambdaFunction",
+          },
+          Action: "lambda:InvokeFunction",
+          Principal: "s3.amazonaws.com",
+          SourceAccount: {
+            Ref: "AWS::AccountId",
+          },
+          SourceArn: bucketArnExpression(notification.bucket),
+        },
+      },
+    },
+    {
+      name: policyName,
+      block: {
+        Type: "AWS::IAM::Policy",
+        Properties: {
+          PolicyName: policyName,
+          Roles: [
+            {
+              Ref: "BucketNotificationHandlerRole",
             },
+          ],
+          PolicyDocument: {
+            Version: "2012-10-17",
+            Statement: [
+              {
+                Effect: "Allow",
+                Action: [
+                  "s3:GetBucketNotification",
+                  "s3:PutBucketNotification",
+                ],
+                Resource: bucketArnExpression(notification.bucket),
+              },
+            ],
           },
-        };
+        },
+      },
+    },
+    {
+      name: eventSourceResourceName("BucketNotification", index),
+      block: {
+        Type: "Custom::BucketNotification",
+        DependsOn: [permissionName, policyName],
+        Properties: {
+          ServiceToken: {
+            "Fn::GetAtt": ["BucketNotificationHandler", "Arn"],
+          },
+          BucketName: bucketNameExpression(notification.bucket),
+          Id: {
+            "Fn::Sub": `\${LambdaFunction}-${index}`,
+          },
+          LambdaFunctionArn: {
+            "Fn::GetAtt": ["LambdaFunction", "Arn"],
+          },
+          Events: notification.events.map((event) => `s3:${event}:*`),
+          FilterRules: [
+            ...(notification.prefix
+              ? [{ Name: "prefix", Value: notification.prefix }]
+              : []),
+            ...(notification.suffix
+              ? [{ Name: "suffix", Value: notification.suffix }]
+              : []),
+          ],
+        },
       },
-      ({ parameter, name }) => ({
-        name,
-        block: ParameterExpressionProvider.toExpression(parameter),
-      }),
+    },
+  ];
+};
 
-      ({ name, reference }) => ({
-        name,
-        block:
-          ResourceOutputReferenceExpressionProvider.toExpression(reference),
-      }),
+const isBucketNotificationResource = ({ block }: CFResourceDefinition) =>
+  (block as { Type?: string }).Type === "Custom::BucketNotification";
 
-      (coalescedVar) => ({
-        name: coalescedVar.name,
-        block: {
-          "Fn::If": [
-            conditionNameForEnv(coalescedVar),
-            variableValueExpressionToCfExpression(coalescedVar.first),
-            variableValueExpressionToCfExpression(coalescedVar.second),
-          ],
-        },
-      })
-    ),
-  };
+// Each notification rewrites the bucket's whole notification configuration,
+// so they are updated one after another instead of overwriting each other
+const chainBucketNotifications = (
+  resources: readonly CFResourceDefinition[]
+): CFResourceDefinition[] => {
+  const notificationNames = resources
+    .filter(isBucketNotificationResource)
+    .map(({ name }) => name);
+  return resources.map((resource) => {
+    const position = notificationNames.indexOf(resource.name);
+    if (position < 1) {
+      return resource;
+    }
 
-const variableValueExpressionToResourceOutputReferences =
-  reduceVariableValueExpression(
-    () => [],
-    (reference) => [reference]
-  );
+    const block = resource.block as { DependsOn: string[] };
+    return {
+      name: resource.name,
+      block: {
+        ...block,
+        DependsOn: [...block.DependsOn, notificationNames[position - 1]],
+      },
+    };
+  });
+};
 
-const EnvironmentVariableResourceOutputReferenceProvider: ResourceOutputReferenceProvider<EnvironmentVariable> =
+// Shared by all of the function's triggers. The user pool's ARN is not known
+// here because the auth resource depends on the function, so any pool in the
+// account may invoke it.
+const userPoolTriggerResources: CFResourceDefinition[] = [
   {
-    toOutputReferences: reduceEnvionmentVariable<ResourceOutputReference[]>(
-      ({ table }) => [apiTableOutputReference(table)],
-      () => [],
-      ({ reference }) => [reference],
-      ({ first, second }) => [
-        ...variableValueExpressionToResourceOutputReferences(first),
-        ...variableValueExpressionToResourceOutputReferences(second),
-      ]
-    ),
-  };
+    name: "PermissionForCognitoToInvokeLambda",
+    block: {
+      Type: "AWS::Lambda::Permission",
+      Properties: {
+        FunctionName: {
+          Ref: "LambdaFunction",
+        },
+        Action: "lambda:InvokeFunction",
+        Principal: "cognito-idp.amazonaws.com",
+        SourceAccount: {
+          Ref: "AWS::AccountId",
+        },
+        SourceArn: {
+          "Fn::Sub":
+            "arn:aws:cognito-idp:${AWS::Region}:${AWS::AccountId}:userpool/*",
+        },
+      },
+    },
+  },
+];
 
-const EnvironmentVariableConditionProvider: ConditionProvider<EnvironmentVariable> =
-  {
-    toConditions: reduceEnvionmentVariable(
-      () => [],
-      () => [],
-      () => [],
-      (c) => [
-        {
-          name: conditionNameForEnv(c),
-          block: {
-            "Fn::Not": [
-              {
-                "Fn::Equals": [
-                  variableValueExpressionToCfExpression(c.first),
-                  "",
+const EventSourceResourceProvider: ResourceProvider<EventSource> = {
+  toResources: (source, index) =>
+    reduceEventSource<CFResourceDefinition[]>(
+      (table) => tableStreamResources(tableStream(table), index),
+      (stream) => tableStreamResources(stream, index),
+      (schedule) => {
+        const ruleName = eventSourceResourceName("CloudWatchEvent", index);
+        const toggledEnvironments = scheduleToggledEnvironments(schedule);
+        const enabledState =
+          schedule.enabled === false ? "DISABLED" : "ENABLED";
+        const toggledState =
+          enabledState === "ENABLED" ? "DISABLED" : "ENABLED";
+        return [
+          {
+            name: ruleName,
+            block: {
+              Type: "AWS::Events::Rule",
+              Properties: {
+                Description: {
+                  "Fn::Sub": "Schedule for ${LambdaFunction}",
+                },
+                ScheduleExpression: scheduleExpressionToCfExpression(
+                  schedule.schedule
+                ),
+                State:
+                  toggledEnvironments.length > 0
+                    ? {
+                        "Fn::If": [
+                          conditionNameForEnvironments(toggledEnvironments),
+                          toggledState,
+                          enabledState,
+                        ],
+                      }
+                    : enabledState,
+                Targets: [
+                  {
+                    Id: "LambdaFunctionTarget",
+                    Arn: {
+                      "Fn::GetAtt": ["LambdaFunction", "Arn"],
+                    },
+                    Input:
+                      schedule.input !== undefined
+                        ? JSON.stringify(schedule.input)
+                        : undefined,
+                  },
                 ],
               },
-            ],
+            },
           },
-        },
-      ]
-    ),
-  };
+          {
+            name: eventSourceResourceName(
+              "PermissionForEventsToInvokeLambda",
+              index
+            ),
+            block: {
+              Type: "AWS::Lambda::Permission",
+              Properties: {
+                FunctionName: {
+                  Ref: "LambdaFunction",
+                },
+                Action: "lambda:InvokeFunction",
+                Principal: "events.amazonaws.com",
+                SourceArn: {
+                  "Fn::GetAtt": [ruleName, "Arn"],
+                },
+              },
+            },
+          },
+        ];
+      },
+      (notification) => bucketNotificationResources(notification, index),
+      () => userPoolTriggerResources,
+      (messages) => queueMessagesResources(messages, index),
+      (messages) => topicMessagesResources(messages, index)
+    )(source),
+};
+
+const EventSourceQueueProvider: QueueProvider<EventSource> = {
+  toQueues: reduceEventSource(
+    () => [],
+    () => [],
+    () => [],
+    () => [],
+    () => [],
+    ({ queue }) => functionQueues(queue),
+    () => []
+  ),
+};
+
+const EventSourceTopicProvider: TopicProvider<EventSource> = {
+  toTopics: reduceEventSource(
+    () => [],
+    () => [],
+    () => [],
+    () => [],
+    () => [],
+    () => [],
+    ({ topic }) => functionTopics(topic)
+  ),
+};
 
 export const CFEnvironment: ParametersProvider<EnvironmentVariable> &
   VariableProvider<EnvironmentVariable> &
   ConditionProvider<EnvironmentVariable> &
-  ResourceOutputReferenceProvider<EnvironmentVariable> = {
+  PolicyStatementsProvider<EnvironmentVariable> &
+  ResourceOutputReferenceProvider<EnvironmentVariable> &
+  QueueProvider<EnvironmentVariable> &
+  TopicProvider<EnvironmentVariable> = {
   ...EnvironmentVariableParametersProvider,
   ...EnvironmentVariableVariableProvider,
   ...EnvironmentVariableConditionProvider,
+  ...EnvironmentVariablePolicyStatementsProvider,
   ...EnvironmentVariableResourceOutputReferenceProvider,
+  ...EnvironmentVariableQueueProvider,
+  ...EnvironmentVariableTopicProvider,
 };
 
 export const CFPermissions: ParametersProvider<Permission> &
-  PolicyProvider<Permission> &
+  PolicyStatementsProvider<Permission> &
   ConditionProvider<Permission> &
-  ResourceOutputReferenceProvider<Permission> = {
+  ResourceOutputReferenceProvider<Permission> &
+  QueueProvider<Permission> &
+  TopicProvider<Permission> = {
   ...PermissionParametersProvider,
   ...PermissionPolicyProvider,
   ...PermissionConditionProvider,
   ...PermissionResourceOutputReferenceProvider,
+  ...PermissionQueueProvider,
+  ...PermissionTopicProvider,
+};
+
+const LayerParametersProvider: ParametersProvider<Layer> = {
+  toParameters: reduceLayer(
+    (layer) => [
+      ResourceOutputReferenceParameterProvider.toParameter(
+        amplifyLayerOutputReference(layer)
+      ),
+    ],
+    ({ arn }) => stringOrParameterParameters(arn)
+  ),
+};
+
+const LayerExpressionProvider: ExpressionProvider<Layer> = {
+  toExpression: reduceLayer<string | object>(
+    (layer) =>
+      ResourceOutputReferenceExpressionProvider.toExpression(
+        amplifyLayerOutputReference(layer)
+      ),
+    ({ arn }) => stringOrParameterExpression(arn)
+  ),
+};
+
+const LayerResourceOutputReferenceProvider: ResourceOutputReferenceProvider<Layer> =
+  {
+    toOutputReferences: reduceLayer<ResourceOutputReference[]>(
+      (layer) => [amplifyLayerOutputReference(layer)],
+      () => []
+    ),
+  };
+
+export const CFLayer: ParametersProvider<Layer> &
+  ExpressionProvider<Layer> &
+  ResourceOutputReferenceProvider<Layer> = {
+  ...LayerParametersProvider,
+  ...LayerExpressionProvider,
+  ...LayerResourceOutputReferenceProvider,
+};
+
+export const CFEventSource: ParametersProvider<EventSource> &
+  ConditionProvider<EventSource> &
+  TriggerPolicyProvider<EventSource> &
+  ResourceProvider<EventSource> &
+  ResourceOutputReferenceProvider<EventSource> &
+  QueueProvider<EventSource> &
+  TopicProvider<EventSource> = {
+  ...EventSourceParametersProvider,
+  ...EventSourceConditionProvider,
+  ...EventSourceTriggerPolicyProvider,
+  ...EventSourceResourceProvider,
+  ...EventSourceResourceOutputReferenceProvider,
+  ...EventSourceQueueProvider,
+  ...EventSourceTopicProvider,
 };
 
-export const buildCloudFormationTemplate = <T, E, P>({
+// A queue can be used by several permissions, variables and event sources but
+// is only declared once
+const uniqueFunctionQueues = (queues: readonly FunctionQueue[]) =>
+  Object.values(groupBy(queues, ({ queueName }) => queueName)).map(
+    ([queue, ...others]) => {
+      if (others.some((other) => !isEqual(other, queue))) {
+        throw new Error(
+          `Queue ${queue.queueName} is declared with different settings`
+        );
+      }
+      return queue;
+    }
+  );
+
+// Names of resources that exist once per Amplify environment
+const environmentResourceName = (name: string) => ({
+  "Fn::If": [
+    "ShouldNotCreateEnvResources",
+    name,
+    {
+      "Fn::Join": [
+        "",
+        [
+          name,
+          "-",
+          {
+            Ref: "env",
+          },
+        ],
+      ],
+    },
+  ],
+});
+
+// SQS allows visibility timeouts of up to 12 hours, the default leaves the
+// function time to retry before a message becomes visible again
+const maxVisibilityTimeout = 43200;
+
+const functionQueueResources = (
+  queue: FunctionQueue,
+  functionTimeout = 30
+): CFResourceDefinition[] => {
+  const queueResourceName = functionQueueResourceName(queue);
+  const deadLetterQueueResourceName = `${queueResourceName}DeadLetterQueue`;
+  return [
+    ...(queue.deadLetterQueue
+      ? [
+          {
+            name: deadLetterQueueResourceName,
+            block: {
+              Type: "AWS::SQS::Queue",
+              Properties: {
+                QueueName: environmentResourceName(`${queue.queueName}-dlq`),
+                MessageRetentionPeriod: 1209600,
+              },
+            },
+          },
+        ]
+      : []),
+    {
+      name: queueResourceName,
+      block: {
+        Type: "AWS::SQS::Queue",
+        Properties: {
+          QueueName: environmentResourceName(queue.queueName),
+          VisibilityTimeout:
+            queue.visibilityTimeout ??
+            Math.min(functionTimeout * 6, maxVisibilityTimeout),
+          MessageRetentionPeriod: queue.messageRetentionPeriod,
+          RedrivePolicy: queue.deadLetterQueue
+            ? {
+                deadLetterTargetArn: {
+                  "Fn::GetAtt": [deadLetterQueueResourceName, "Arn"],
+                },
+                maxReceiveCount: queue.deadLetterQueue.maxReceiveCount,
+              }
+            : undefined,
+        },
+      },
+    },
+  ];
+};
+
+const functionQueueOutputs = (queue: FunctionQueue) => {
+  const queueResourceName = functionQueueResourceName(queue);
+  return {
+    [`${queueResourceName}Url`]: {
+      Value: {
+        Ref: queueResourceName,
+      },
+    },
+    [`${queueResourceName}Arn`]: {
+      Value: {
+        "Fn::GetAtt": [queueResourceName, "Arn"],
+      },
+    },
+  };
+};
+
+export const collectParameters = <T, E, P, L>({
+  eventSources = [],
+  layers = [],
+  environment,
+  permissions,
+  cfEnvironment,
+  cfPermissions,
+  cfEventSource,
+  cfLayer,
+}: {
+  eventSources?: readonly T[];
+  layers?: readonly L[];
+  environment: readonly E[];
+  permissions: readonly P[];
+  cfEnvironment: ParametersProvider<E>;
+  cfPermissions: ParametersProvider<P>;
+  cfEventSource: ParametersProvider<T>;
+  cfLayer: ParametersProvider<L>;
+}): CFParameter[] =>
+  uniqBy(
+    flatten([
+      ...environment.map(cfEnvironment.toParameters),
+      ...permissions.map(cfPermissions.toParameters),
+      ...eventSources.map(cfEventSource.toParameters),
+      ...layers.map(cfLayer.toParameters),
+    ]),
+    ({ name }) => name
+  );
+
+export const buildCloudFormationTemplate = <T, E, P, L>({
   name,
   region,
-  runtime = "nodejs12.x",
-  eventSource,
+  runtime = defaultRuntime,
+  sizing = defaultFunctionSizing,
+  eventSources = [],
+  layers = [],
   environment,
   permissions,
   cfEnvironment,
   cfPermissions,
-  cfTable,
+  cfEventSource,
+  cfLayer,
 }: {
   name: string;
   region?: Region;
   runtime?: Runtime;
-  eventSource: T;
+  sizing?: FunctionSizing;
+  eventSources?: readonly T[];
+  layers?: readonly L[];
   environment: readonly E[];
   permissions: readonly P[];
   cfEnvironment: ParametersProvider<E> &
     VariableProvider<E> &
-    ConditionProvider<E>;
+    ConditionProvider<E> &
+    PolicyStatementsProvider<E> &
+    QueueProvider<E> &
+    TopicProvider<E>;
   cfPermissions: ParametersProvider<P> &
-    PolicyProvider<P> &
-    ConditionProvider<P>;
-  cfTable: ParameterProvider<T> & TableDetailProvider<T>;
+    PolicyStatementsProvider<P> &
+    ConditionProvider<P> &
+    QueueProvider<P> &
+    TopicProvider<P>;
+  cfEventSource: ParametersProvider<T> &
+    ConditionProvider<T> &
+    TriggerPolicyProvider<T> &
+    ResourceProvider<T> &
+    QueueProvider<T> &
+    TopicProvider<T>;
+  cfLayer: ParametersProvider<L> & ExpressionProvider<L>;
 }) => {
-  const sourceTableParameter = eventSource
-    ? cfTable.toParameter(eventSource)
-    : undefined;
-  const parameters = uniq(
-    flatten([
-      ...environment.map(cfEnvironment.toParameters),
-      ...permissions.map(cfPermissions.toParameters),
-      sourceTableParameter ? [sourceTableParameter] : [],
-    ])
-  );
+  const parameters = collectParameters({
+    eventSources,
+    layers,
+    environment,
+    permissions,
+    cfEnvironment,
+    cfPermissions,
+    cfEventSource,
+    cfLayer,
+  });
 
   const conditions = flatten([
     ...environment.map(cfEnvironment.toConditions),
     ...permissions.map(cfPermissions.toConditions),
+    ...eventSources.map(cfEventSource.toConditions),
   ]);
 
+  const triggerPolicyStatements = optimizePolicyStatements(
+    flatten(eventSources.map(cfEventSource.toTriggerPolicyStatements))
+  );
+
+  const eventResources = chainBucketNotifications(
+    flatten(eventSources.map(cfEventSource.toResources))
+  );
+
+  const queues = uniqueFunctionQueues(
+    flatten([
+      ...environment.map(cfEnvironment.toQueues),
+      ...permissions.map(cfPermissions.toQueues),
+      ...eventSources.map(cfEventSource.toQueues),
+    ])
+  );
+  const queueResources = flatten(
+    queues.map((queue) => functionQueueResources(queue, sizing.timeout))
+  );
+
+  const topics = uniqBy(
+    flatten([
+      ...environment.map(cfEnvironment.toTopics),
+      ...permissions.map(cfPermissions.toTopics),
+      ...eventSources.map(cfEventSource.toTopics),
+    ]),
+    ({ topicName }) => topicName
+  );
+
   const regionExpression = region
     ? region
     : {
         Ref: "AWS::Region",
       };
 
+  // The log statement stays inline if the rest has to move to managed
+  // policies. Its log group is in the region the stack is deployed to,
+  // whatever region the metadata names.
+  const executionPolicy = splitPolicyStatements(
+    name,
+    optimizePolicyStatements([
+      {
+        Effect: "Allow",
+        Action: [
+          "logs:CreateLogGroup",
+          "logs:CreateLogStream",
+          "logs:PutLogEvents",
+        ],
+        Resource: {
+          "Fn::Sub": [
+            "arn:aws:logs:${region}:${account}:log-group:/aws/lambda/${lambda}:log-stream:*",
+            {
+              region: {
+                Ref: "AWS::Region",
+              },
+              account: {
+                Ref: "AWS::AccountId",
+              },
+              lambda: {
+                Ref: "LambdaFunction",
+              },
+            },
+          ],
+        },
+      },
+      ...flatten(permissions.map(cfPermissions.toPolicyStatements)),
+      ...flatten(environment.map(cfEnvironment.toPolicyStatements)),
+    ]),
+    triggerPolicyStatements,
+    1
+  );
+
   return {
     AWSTemplateFormatVersion: "2010-09-09",
     Description: "Lambda resource stack creation using Amplify CLI",
@@ -560,7 +2037,19 @@ export const buildCloudFormationTemplate = <T, E, P>({
             "Fn::GetAtt": ["LambdaExecutionRole", "Arn"],
           },
           Runtime: runtime,
-          Timeout: "25",
+          Layers:
+            layers.length > 0 ? layers.map(cfLayer.toExpression) : undefined,
+          Timeout:
+            sizing.timeout !== undefined ? `${sizing.timeout}` : undefined,
+          MemorySize: sizing.memorySize,
+          ReservedConcurrentExecutions: sizing.reservedConcurrentExecutions,
+          Architectures: sizing.architecture
+            ? [sizing.architecture]
+            : undefined,
+          EphemeralStorage:
+            sizing.ephemeralStorageSize !== undefined
+              ? { Size: sizing.ephemeralStorageSize }
+              : undefined,
         },
       },
       LambdaExecutionRole: {
@@ -608,37 +2097,10 @@ export const buildCloudFormationTemplate = <T, E, P>({
               Ref: "LambdaExecutionRole",
             },
           ],
-          PolicyDocument: {
-            Version: "2012-10-17",
-            Statement: [
-              {
-                Effect: "Allow",
-                Action: [
-                  "logs:CreateLogGroup",
-                  "logs:CreateLogStream",
-                  "logs:PutLogEvents",
-                ],
-                Resource: {
-                  "Fn::Sub": [
-                    "arn:aws:logs:${region}:${account}:log-group:/aws/lambda/${lambda}:log-stream:*",
-                    {
-                      region: regionExpression,
-                      account: {
-                        Ref: "AWS::AccountId",
-                      },
-                      lambda: {
-                        Ref: "LambdaFunction",
-                      },
-                    },
-                  ],
-                },
-              },
-              ...permissions.map(cfPermissions.toPolicyStatement),
-            ],
-          },
+          PolicyDocument: policyDocument(executionPolicy.inline),
         },
       },
-      ...(eventSource
+      ...(triggerPolicyStatements.length > 0
         ? {
             LambdaTriggerPolicy: {
               DependsOn: ["LambdaExecutionRole"],
@@ -650,39 +2112,41 @@ export const buildCloudFormationTemplate = <T, E, P>({
                     Ref: "LambdaExecutionRole",
                   },
                 ],
-                PolicyDocument: {
-                  Version: "2012-10-17",
-                  Statement: [
-                    {
-                      Effect: "Allow",
-                      Action: [
-                        "dynamodb:DescribeStream",
-                        "dynamodb:GetRecords",
-                        "dynamodb:GetShardIterator",
-                        "dynamodb:ListStreams",
-                      ],
-                      Resource: cfTable.toStreamArnExpression(eventSource),
-                    },
-                  ],
-                },
-              },
-            },
-            LambdaEventSourceMapping: {
-              Type: "AWS::Lambda::EventSourceMapping",
-              DependsOn: ["LambdaTriggerPolicy", "LambdaExecutionRole"],
-              Properties: {
-                BatchSize: 1,
-                MaximumBatchingWindowInSeconds: 1,
-                Enabled: true,
-                EventSourceArn: cfTable.toStreamArnExpression(eventSource),
-                FunctionName: {
-                  "Fn::GetAtt": ["LambdaFunction", "Arn"],
-                },
-                StartingPosition: "LATEST",
+                PolicyDocument: policyDocument(triggerPolicyStatements),
               },
             },
           }
         : {}),
+      ...fromPairs(
+        executionPolicy.managed.map((statements, index) => [
+          eventSourceResourceName("LambdaExecutionManagedPolicy", index),
+          {
+            DependsOn: ["LambdaExecutionRole"],
+            Type: "AWS::IAM::ManagedPolicy",
+            Properties: {
+              Roles: [
+                {
+                  Ref: "LambdaExecutionRole",
+                },
+              ],
+              PolicyDocument: policyDocument(statements),
+            },
+          },
+        ])
+      ),
+      ...fromPairs(eventResources.map(({ name, block }) => [name, block])),
+      ...fromPairs(queueResources.map(({ name, block }) => [name, block])),
+      ...fromPairs(
+        topics.map((topic) => [
+          functionTopicResourceName(topic),
+          {
+            Type: "AWS::SNS::Topic",
+            Properties: {
+              TopicName: environmentResourceName(topic.topicName),
+            },
+          },
+        ])
+      ),
     },
     Outputs: {
       Name: {
@@ -703,6 +2167,22 @@ export const buildCloudFormationTemplate = <T, E, P>({
           Ref: "LambdaExecutionRole",
         },
       },
+      LambdaExecutionRoleArn: {
+        Value: {
+          "Fn::GetAtt": ["LambdaExecutionRole", "Arn"],
+        },
+      },
+      ...merge({}, ...queues.map(functionQueueOutputs)),
+      ...fromPairs(
+        topics.map((topic) => [
+          `${functionTopicResourceName(topic)}Arn`,
+          {
+            Value: {
+              Ref: functionTopicResourceName(topic),
+            },
+          },
+        ])
+      ),
     },
   };
 };
@@ -0,0 +1,67 @@
+import { isEqual, isPlainObject, union } from "lodash";
+
+export type JsonChange =
+  | { kind: "added"; path: string; after: unknown }
+  | { kind: "removed"; path: string; before: unknown }
+  | { kind: "changed"; path: string; before: unknown; after: unknown };
+
+const childPath = (parent: string, key: string) =>
+  parent ? `${parent}.${key}` : key;
+
+// Objects are compared key by key, any other values (including arrays) are
+// reported as a whole when they differ
+const diffValues = (
+  before: unknown,
+  after: unknown,
+  at: string
+): JsonChange[] => {
+  if (isEqual(before, after)) {
+    return [];
+  }
+
+  if (before === undefined) {
+    return [{ kind: "added", path: at, after }];
+  }
+
+  if (after === undefined) {
+    return [{ kind: "removed", path: at, before }];
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const beforeObject = before as { [key: string]: unknown };
+    const afterObject = after as { [key: string]: unknown };
+    return union(Object.keys(beforeObject), Object.keys(afterObject)).reduce(
+      (changes: JsonChange[], key) => [
+        ...changes,
+        ...diffValues(beforeObject[key], afterObject[key], childPath(at, key)),
+      ],
+      []
+    );
+  }
+
+  return [{ kind: "changed", path: at, before, after }];
+};
+
+// Generated values may hold undefined properties that the file on disk does
+// not have, so both sides are compared as they would be written
+const asWritten = (value: unknown): unknown =>
+  value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+
+export const diffJson = (before: unknown, after: unknown): JsonChange[] =>
+  diffValues(asWritten(before), asWritten(after), "");
+
+const formatValue = (value: unknown) => JSON.stringify(value);
+
+export const formatJsonChange = (change: JsonChange): string => {
+  const at = change.path || "(root)";
+  switch (change.kind) {
+    case "added":
+      return `+ ${at}: ${formatValue(change.after)}`;
+    case "removed":
+      return `- ${at}: ${formatValue(change.before)}`;
+    case "changed":
+      return `~ ${at}: ${formatValue(change.before)} -> ${formatValue(
+        change.after
+      )}`;
+  }
+};
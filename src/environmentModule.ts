@@ -0,0 +1,34 @@
+// Set by the generated template for every function
+export const builtInVariableNames = ["ENV", "REGION"];
+
+export const environmentModuleFileName = "environment.ts";
+
+// Source of the module written next to a handler's metadata.ts. Importing it
+// fails at cold start when a variable the metadata declares is not set.
+export const environmentModuleSource = (variableNames: readonly string[]) => {
+  const names = [...builtInVariableNames, ...variableNames];
+  return `// Generated from metadata.ts, do not edit
+
+// Declared here so that the module does not depend on @types/node
+declare const process: { env: { [name: string]: string | undefined } };
+
+const names = [${names.map((name) => JSON.stringify(name)).join(", ")}];
+
+const missing = names.filter((name) => process.env[name] === undefined);
+if (missing.length > 0) {
+  throw new Error(
+    \`Missing environment variables \${missing.join(", ")}, the function's configuration does not match its metadata\`
+  );
+}
+
+export type Environment = {
+${names.map((name) => `  readonly ${name}: string;`).join("\n")}
+};
+
+export const environment: Environment = Object.freeze({
+${names.map((name) => `  ${name}: process.env.${name} as string,`).join("\n")}
+});
+
+export default environment;
+`;
+};
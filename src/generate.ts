@@ -0,0 +1,722 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import webpack from "webpack";
+import { flatten, fromPairs, groupBy, mapValues, uniq, uniqBy } from "lodash";
+import {
+  buildCloudFormationTemplate,
+  collectParameters,
+  CFParameter,
+  CFEnvironment,
+  CFPermissions,
+  CFEventSource,
+  CFLayer,
+} from "./buildCloudFormationTemplate";
+import {
+  LambdaFunction,
+  Layer,
+  isAmplifyLayer,
+  ProjectDefaults,
+  functionEventSources,
+  isUserPoolTrigger,
+  resolveFunctionSizing,
+  UserPoolTriggerType,
+} from "./types";
+import {
+  eventSourcePaths,
+  findFunctionCycle,
+  formatValidationErrors,
+  functionDependencies,
+  validateFunctionTargets,
+  validateLambdaFunction,
+  validateParameterValues,
+} from "./validation";
+import {
+  MemoryOutputFileSystem,
+  setVirtualModule,
+  VirtualModulesFileSystem,
+} from "./memoryFileSystem";
+import { environmentModuleSource } from "./environmentModule";
+import {
+  BackendConfig,
+  TeamProviderInfo,
+  environmentModulePath,
+  userPoolTriggerFunctionName,
+} from "./writer";
+
+// Marks the backend-config.json entries this tool writes, only marked
+// functions are ever pruned so functions added with the Amplify CLI are kept
+export const generatorMarker = "amplify-backend-gen";
+
+export type BackendConfigEntry = {
+  service: string;
+  providerPlugin: string;
+  build: boolean;
+  generatedBy?: string;
+  dependsOn: {
+    category: string;
+    resourceName: string;
+    attributes: string[];
+  }[];
+};
+
+// Written to the dependsOn of the auth resource, whose stack connects the
+// function to the user pool
+export type UserPoolTriggerConnection = {
+  authName: string;
+  trigger: UserPoolTriggerType;
+};
+
+// A handler's metadata together with the module it bundles
+export type FunctionSource = {
+  // Name of the function in the Amplify backend
+  name: string;
+  metadata: LambdaFunction;
+  // Absolute path of the handler's entry module
+  entry: string;
+  // Directory holding the handler's directory, handlers import the
+  // environment module from their directory
+  functionsDir: string;
+};
+
+export type GenerateOptions = {
+  // Used to find the packages of Amplify layers, nothing is written there
+  amplifyBackendDir: string;
+  projectDefaults?: ProjectDefaults;
+  // When given every declared parameter must have a value for each of its
+  // environments
+  teamProviderInfo?: TeamProviderInfo;
+  // Contents of backend-config.json, its functions can be targeted by the
+  // handlers when given
+  backendConfig?: BackendConfig;
+};
+
+// The template and backend-config.json entry of a function, these only
+// depend on its metadata
+export type FunctionConfig = {
+  handlerDir: string;
+  template: object;
+  backendConfigEntry: BackendConfigEntry;
+  // Parameters declared in the metadata, the template takes the rest from
+  // other Amplify resources
+  parameters: CFParameter[];
+  // Typed accessor for the function's variables, bundles read it from memory
+  // and writeBackend writes it next to metadata.ts for editors
+  environmentModule: string;
+  userPoolTriggers: UserPoolTriggerConnection[];
+};
+
+// Everything known about a handler before webpack runs
+export type PreparedFunction = FunctionConfig & {
+  entry: string;
+  // Where handlers import the environment module from
+  environmentModuleFile: string;
+  // Packages provided by the function's layers at runtime
+  externalPackages: string[];
+  webpackConfig: webpack.Configuration;
+};
+
+// Everything generated for one handler, kept in memory until it is written
+// or compared against what is on disk
+export type FunctionBuild = FunctionConfig & {
+  // Contents of the function's src directory keyed by relative path
+  files: Map<string, Buffer>;
+  // Absolute paths of every file webpack read to produce the bundle
+  sourceFiles: string[];
+};
+
+// The target does not follow the function's runtime: webpack 4 can only
+// parse ES2019, so handlers are compiled down to it for every runtime even
+// though they all support later syntax natively. Matching the runtime needs
+// webpack 5.
+const tsTarget = "es2019";
+
+// webpack needs an absolute output path even though nothing is written to it
+const srcOutputDir = (name: string) => path.resolve("/", name, "src");
+
+// The metadata and defaults modules are imported, so TypeScript modules
+// need a loader such as ts-node to be registered by the caller
+export const loadProjectDefaults = async (
+  functionsDir: string
+): Promise<ProjectDefaults> => {
+  const defaultsModulePath = path.resolve(functionsDir, "defaults");
+  try {
+    require.resolve(defaultsModulePath);
+  } catch {
+    return {};
+  }
+
+  return (await import(defaultsModulePath)).default as ProjectDefaults;
+};
+
+export const loadFunctionSource = async (
+  functionsDir: string,
+  handlerDir: string
+): Promise<FunctionSource> => {
+  const metadataModulePath = path.resolve(functionsDir, handlerDir, "metadata");
+  const metadata = (await import(metadataModulePath)).default as LambdaFunction;
+
+  return {
+    name: handlerDir,
+    metadata,
+    functionsDir,
+    entry:
+      metadata && metadata.handlerSrc
+        ? path.resolve(path.relative(metadataModulePath, metadata.handlerSrc))
+        : path.resolve(functionsDir, handlerDir, "src", "index.ts"),
+  };
+};
+
+// Every directory in the functions directory is a handler
+export const listHandlerDirs = async (functionsDir: string) => {
+  const contents = await fs.readdir(functionsDir);
+  const isDirectory = await Promise.all(
+    contents.map(async (name) =>
+      (await fs.stat(path.join(functionsDir, name))).isDirectory()
+    )
+  );
+  return contents.filter((_name, index) => isDirectory[index]);
+};
+
+// Packages that a layer provides at runtime, for Amplify layers these are the
+// dependencies of the layer's lib/nodejs/package.json
+const layerPackages = async (
+  layer: Layer,
+  amplifyBackendDir: string
+): Promise<string[]> => {
+  const declaredPackages = [...(layer.packages || [])];
+  if (!isAmplifyLayer(layer)) {
+    return declaredPackages;
+  }
+
+  const packageJsonFile = path.join(
+    amplifyBackendDir,
+    "function",
+    layer.layerName,
+    "lib",
+    "nodejs",
+    "package.json"
+  );
+  try {
+    const packageJson = JSON.parse(await fs.readFile(packageJsonFile, "utf8"));
+    return [
+      ...declaredPackages,
+      ...Object.keys(packageJson.dependencies || {}),
+    ];
+  } catch (e) {
+    if (e.code === "ENOENT") {
+      return declaredPackages;
+    }
+    throw e;
+  }
+};
+
+// Throws when a handler targets a function that is neither a handler nor in
+// backend-config.json, or when functions depend on each other in a cycle,
+// which Amplify cannot deploy. Handlers with invalid metadata are skipped,
+// generating them reports the problems.
+// Names of the queues and topics created in the function's stack
+const functionStackResources = (metadata: LambdaFunction) => {
+  const eventSources = functionEventSources(metadata);
+  return {
+    queues: uniq(
+      flatten([
+        ...metadata.environment.map(CFEnvironment.toQueues),
+        ...metadata.permissions.map(CFPermissions.toQueues),
+        ...eventSources.map(CFEventSource.toQueues),
+      ]).map(({ queueName }) => queueName)
+    ),
+    topics: uniq(
+      flatten([
+        ...metadata.environment.map(CFEnvironment.toTopics),
+        ...metadata.permissions.map(CFPermissions.toTopics),
+        ...eventSources.map(CFEventSource.toTopics),
+      ]).map(({ topicName }) => topicName)
+    ),
+  };
+};
+
+// Function queues and topics are named `<name>-<env>` whatever function
+// declares them, so two stacks creating the same one fail to deploy
+const sharedStackResources = (sources: readonly FunctionSource[]) => {
+  const resources = sources.map(({ name, metadata }) => ({
+    name,
+    ...functionStackResources(metadata),
+  }));
+  const declaredBy = (kind: "queues" | "topics") =>
+    groupBy(
+      flatten(
+        resources.map((resource) =>
+          resource[kind].map((resourceName) => ({
+            resourceName,
+            name: resource.name,
+          }))
+        )
+      ),
+      ({ resourceName }) => resourceName
+    );
+
+  return [
+    ...Object.entries(declaredBy("queues")).map(
+      ([queueName, declarations]) => ({
+        kind: "queue",
+        resourceName: queueName,
+        names: declarations.map(({ name }) => name),
+      })
+    ),
+    ...Object.entries(declaredBy("topics")).map(
+      ([topicName, declarations]) => ({
+        kind: "topic",
+        resourceName: topicName,
+        names: declarations.map(({ name }) => name),
+      })
+    ),
+  ].filter(({ names }) => names.length > 1);
+};
+
+export const checkFunctionDependencies = (
+  sources: readonly FunctionSource[],
+  backendConfig: BackendConfig = {}
+) => {
+  const backendFunctions = backendConfig.function || {};
+  const validSources = sources.filter(
+    ({ metadata }) => validateLambdaFunction(metadata).length === 0
+  );
+
+  // Layers are in the function category too but cannot depend on functions
+  const dependencies: { [functionName: string]: string[] } = {
+    ...fromPairs(
+      Object.keys(backendFunctions)
+        .filter((name) => backendFunctions[name].service === "Lambda")
+        .map((name) => [
+          name,
+          (backendFunctions[name].dependsOn || [])
+            .filter(({ category }) => category === "function")
+            .map(({ resourceName }) => resourceName),
+        ])
+    ),
+    ...fromPairs(sources.map(({ name }) => [name, []])),
+    ...fromPairs(
+      validSources.map(({ name, metadata }) => [
+        name,
+        functionDependencies(metadata),
+      ])
+    ),
+  };
+
+  const knownFunctions = Object.keys(dependencies);
+  for (const { name, metadata } of validSources) {
+    const targetErrors = validateFunctionTargets(metadata, knownFunctions);
+    if (targetErrors.length > 0) {
+      throw new Error(formatValidationErrors(name, targetErrors));
+    }
+  }
+
+  const shared = sharedStackResources(validSources);
+  if (shared.length > 0) {
+    throw new Error(
+      shared
+        .map(
+          ({ kind, resourceName, names }) =>
+            `The function ${kind} ${resourceName} is declared by ${names.join(
+              ", "
+            )}. Only one function can declare it, the others can use it as an external ${kind}.`
+        )
+        .join("\n")
+    );
+  }
+
+  const cycle = findFunctionCycle(dependencies);
+  if (cycle) {
+    throw new Error(
+      `Functions depend on each other in a cycle: ${cycle.join(" -> ")}`
+    );
+  }
+};
+
+// Throws when the metadata is invalid, the message lists every problem
+export const generateFunctionConfig = (
+  name: string,
+  metadata: LambdaFunction,
+  projectDefaults: ProjectDefaults = {},
+  teamProviderInfo?: TeamProviderInfo
+): FunctionConfig => {
+  const metadataErrors = validateLambdaFunction(metadata, projectDefaults);
+  if (metadataErrors.length > 0) {
+    throw new Error(formatValidationErrors(name, metadataErrors));
+  }
+
+  const eventSources = functionEventSources(metadata);
+
+  const sizing = resolveFunctionSizing(metadata, projectDefaults);
+
+  const layers = metadata.layers || [];
+
+  const template = buildCloudFormationTemplate({
+    eventSources,
+    layers,
+    name,
+    runtime: metadata.runtime,
+    region: metadata.region,
+    sizing,
+    environment: metadata.environment,
+    permissions: metadata.permissions,
+    cfEnvironment: CFEnvironment,
+    cfPermissions: CFPermissions,
+    cfEventSource: CFEventSource,
+    cfLayer: CFLayer,
+  });
+
+  const parameters = collectParameters({
+    eventSources,
+    layers,
+    environment: metadata.environment,
+    permissions: metadata.permissions,
+    cfEnvironment: CFEnvironment,
+    cfPermissions: CFPermissions,
+    cfEventSource: CFEventSource,
+    cfLayer: CFLayer,
+  }).filter(({ environmentValues }) => environmentValues !== undefined);
+
+  if (teamProviderInfo) {
+    const parameterErrors = validateParameterValues(
+      parameters,
+      mapValues(teamProviderInfo, ({ categories }) =>
+        categories && categories.function && categories.function[name]
+          ? categories.function[name]
+          : {}
+      )
+    );
+    if (parameterErrors.length > 0) {
+      throw new Error(formatValidationErrors(name, parameterErrors));
+    }
+  }
+
+  const resourceReferences = groupBy(
+    uniqBy(
+      [
+        ...flatten(metadata.environment.map(CFEnvironment.toOutputReferences)),
+        ...flatten(metadata.permissions.map(CFPermissions.toOutputReferences)),
+        ...flatten(eventSources.map(CFEventSource.toOutputReferences)),
+        ...flatten(layers.map(CFLayer.toOutputReferences)),
+      ],
+      ({ category, resource, output }) => `${category}-${resource}-${output}`
+    ),
+    ({ category, resource }) => `${category}-${resource}`
+  );
+
+  const triggerSources = flatten(
+    eventSourcePaths(metadata).map(({ source, at }) =>
+      isUserPoolTrigger(source) ? [{ source, at }] : []
+    )
+  );
+  const userPoolTriggers = triggerSources.map(({ source }) => ({
+    authName: source.userPool.authName,
+    trigger: source.trigger,
+  }));
+
+  // The auth category connects triggers to functions by name, and Amplify
+  // cannot deploy an auth resource and a function that depend on each other
+  const triggerErrors = flatten(
+    triggerSources.map(({ source: { userPool, trigger }, at }) => {
+      const functionName = userPoolTriggerFunctionName(
+        userPool.authName,
+        trigger
+      );
+      return [
+        ...(functionName !== name
+          ? [
+              {
+                path: at,
+                message: `has the ${trigger} trigger of ${userPool.authName}, which Amplify only connects to a function named ${functionName}`,
+              },
+            ]
+          : []),
+        ...(resourceReferences[`auth-${userPool.authName}`]
+          ? [
+              {
+                path: at,
+                message: `is a trigger of ${userPool.authName}, which the function cannot also reference, read the user pool ID from the trigger event instead`,
+              },
+            ]
+          : []),
+      ];
+    })
+  );
+  if (triggerErrors.length > 0) {
+    throw new Error(formatValidationErrors(name, triggerErrors));
+  }
+
+  const backendConfigEntry = {
+    service: "Lambda",
+    providerPlugin: "awscloudformation",
+    build: true,
+    generatedBy: generatorMarker,
+    dependsOn: Object.values(resourceReferences).map((references) => ({
+      category: references[0].category,
+      resourceName: references[0].resource,
+      attributes: references.map(({ output }) => output),
+    })),
+  };
+
+  const environmentModule = environmentModuleSource(
+    metadata.environment.map(
+      (variable) => CFEnvironment.toVariable(variable).name
+    )
+  );
+
+  return {
+    handlerDir: name,
+    template,
+    backendConfigEntry,
+    parameters,
+    environmentModule,
+    userPoolTriggers,
+  };
+};
+
+export const prepareFunction = async (
+  { name, metadata, entry, functionsDir }: FunctionSource,
+  { amplifyBackendDir, projectDefaults, teamProviderInfo }: GenerateOptions
+): Promise<PreparedFunction> => {
+  const config = generateFunctionConfig(
+    name,
+    metadata,
+    projectDefaults,
+    teamProviderInfo
+  );
+
+  const externalPackages = uniq(
+    flatten(
+      await Promise.all(
+        (metadata.layers || []).map((layer) =>
+          layerPackages(layer, amplifyBackendDir)
+        )
+      )
+    )
+  );
+
+  const webpackConfig: webpack.Configuration = {
+    entry,
+    output: {
+      publicPath: "./",
+      path: srcOutputDir(name),
+      filename: "index.js",
+      libraryTarget: "commonjs2",
+    },
+    target: "node",
+    node: false,
+    mode: "none",
+    resolve: {
+      extensions: [".ts", ".tsx", ".json", ".js"],
+    },
+    externals: [
+      {
+        "aws-sdk": "commonjs2 aws-sdk",
+      },
+      (_context, request: string, callback) => {
+        const isLayerPackage = externalPackages.some(
+          (externalPackage) =>
+            request === externalPackage ||
+            request.startsWith(`${externalPackage}/`)
+        );
+        if (isLayerPackage) {
+          callback(null, `commonjs2 ${request}`);
+        } else {
+          callback();
+        }
+      },
+    ],
+    module: {
+      rules: [
+        {
+          test: /\.tsx?$/,
+          use: [
+            {
+              loader: require.resolve("ts-loader"),
+              options: {
+                // Finds the environment module, which is not on disk
+                compiler: require.resolve("./typescriptCompiler"),
+                // Only silences the warning about the custom compiler
+                logLevel: "ERROR",
+                compilerOptions: {
+                  target: tsTarget,
+                },
+              },
+            },
+          ],
+        },
+        {
+          test: /\.html?$/,
+          use: [
+            {
+              loader: require.resolve("file-loader"),
+            },
+          ],
+        },
+      ],
+    },
+  };
+
+  // Registered straight away as the handlers of a project may be type checked
+  // together, so other handlers' bundles need it as well
+  const environmentModuleFile = environmentModulePath(functionsDir, name);
+  setVirtualModule(environmentModuleFile, config.environmentModule);
+
+  return {
+    ...config,
+    entry,
+    environmentModuleFile,
+    externalPackages,
+    webpackConfig,
+  };
+};
+
+const bundleFiles = (name: string, outputFileSystem: MemoryOutputFileSystem) =>
+  new Map<string, Buffer>([
+    [
+      "package.json",
+      Buffer.from(
+        JSON.stringify(
+          {
+            name,
+            version: "2.0.0",
+            description: "Lambda function generated by Amplify",
+            main: "index.js",
+            license: "Apache-2.0",
+          },
+          null,
+          2
+        ),
+        "utf8"
+      ),
+    ],
+    ...Array.from(
+      outputFileSystem.files,
+      ([filePath, contents]): [string, Buffer] => [
+        path.relative(srcOutputDir(name), filePath),
+        contents,
+      ]
+    ),
+  ]);
+
+// Handlers import the environment module from memory, so that bundling
+// never writes to the functions directory
+const bundler = (
+  environmentModuleFile: string,
+  environmentModule: string,
+  webpackConfig: webpack.Configuration
+) => {
+  setVirtualModule(environmentModuleFile, environmentModule);
+  const packer = webpack(webpackConfig);
+  packer.inputFileSystem = new VirtualModulesFileSystem(packer.inputFileSystem);
+  return packer;
+};
+
+export const bundleFunction = async ({
+  handlerDir,
+  template,
+  backendConfigEntry,
+  parameters,
+  environmentModule,
+  userPoolTriggers,
+  environmentModuleFile,
+  webpackConfig,
+}: PreparedFunction): Promise<FunctionBuild> => {
+  const packer = bundler(
+    environmentModuleFile,
+    environmentModule,
+    webpackConfig
+  );
+  const outputFileSystem = new MemoryOutputFileSystem();
+  packer.outputFileSystem = outputFileSystem;
+
+  const stats = await new Promise<webpack.Stats>((resolve, reject) =>
+    packer.run((err, stats) => {
+      if (err) {
+        reject(err);
+      } else if (stats.hasErrors()) {
+        const info = stats.toJson();
+        reject(new Error(JSON.stringify(info.errors, null, 2)));
+      } else {
+        resolve(stats);
+      }
+    })
+  );
+
+  return {
+    handlerDir,
+    template,
+    backendConfigEntry,
+    parameters,
+    environmentModule,
+    userPoolTriggers,
+    files: bundleFiles(handlerDir, outputFileSystem),
+    sourceFiles: Array.from(stats.compilation.fileDependencies),
+  };
+};
+
+// Calls back with the bundle after every compile of the handler's sources
+// until the returned watcher is closed
+export const watchBundle = (
+  {
+    handlerDir,
+    environmentModule,
+    environmentModuleFile,
+    webpackConfig,
+  }: PreparedFunction,
+  callback: (err: Error | undefined, files?: Map<string, Buffer>) => void
+) => {
+  const packer = bundler(
+    environmentModuleFile,
+    environmentModule,
+    webpackConfig
+  );
+  const outputFileSystem = new MemoryOutputFileSystem();
+  packer.outputFileSystem = outputFileSystem;
+
+  return packer.watch({}, (err, stats) => {
+    if (err) {
+      callback(err);
+    } else if (stats.hasErrors()) {
+      callback(new Error(JSON.stringify(stats.toJson().errors, null, 2)));
+    } else {
+      callback(undefined, bundleFiles(handlerDir, outputFileSystem));
+    }
+  });
+};
+
+export const generateFunction = async (
+  source: FunctionSource,
+  options: GenerateOptions
+): Promise<FunctionBuild> =>
+  bundleFunction(await prepareFunction(source, options));
+
+// Generates every handler in the functions directory, all of them are
+// prepared before any is bundled. The project defaults are loaded from the
+// directory unless given.
+export const generateBackend = async (
+  functionsDir: string,
+  options: GenerateOptions
+): Promise<FunctionBuild[]> => {
+  const projectDefaults =
+    options.projectDefaults || (await loadProjectDefaults(functionsDir));
+  const sources: FunctionSource[] = [];
+  for (const handlerDir of await listHandlerDirs(functionsDir)) {
+    sources.push(await loadFunctionSource(functionsDir, handlerDir));
+  }
+
+  checkFunctionDependencies(sources, options.backendConfig);
+
+  const prepared: PreparedFunction[] = [];
+  for (const source of sources) {
+    prepared.push(
+      await prepareFunction(source, { ...options, projectDefaults })
+    );
+  }
+
+  const builds: FunctionBuild[] = [];
+  for (const preparedFunction of prepared) {
+    builds.push(await bundleFunction(preparedFunction));
+  }
+  return builds;
+};
@@ -0,0 +1,76 @@
+export * from "./types";
+export {
+  generatorMarker,
+  BackendConfigEntry,
+  FunctionSource,
+  UserPoolTriggerConnection,
+  GenerateOptions,
+  FunctionConfig,
+  PreparedFunction,
+  FunctionBuild,
+  loadProjectDefaults,
+  loadFunctionSource,
+  listHandlerDirs,
+  checkFunctionDependencies,
+  generateFunctionConfig,
+  prepareFunction,
+  bundleFunction,
+  watchBundle,
+  generateFunction,
+  generateBackend,
+} from "./generate";
+export {
+  BackendConfigFunctionEntry,
+  BackendConfigDependency,
+  BackendConfigResource,
+  BackendConfig,
+  UserPoolTriggerEntry,
+  UserPoolTriggerConfig,
+  AuthCliInputs,
+  TeamProviderInfo,
+  FunctionParameterEntry,
+  templateFileName,
+  functionOutputDir,
+  backendConfigFileName,
+  teamProviderInfoFileName,
+  functionParametersFileName,
+  authCliInputsFileName,
+  userPoolTriggerKey,
+  userPoolTriggerFunctionName,
+  environmentModulePath,
+  readBackendConfig,
+  applyBackendConfigEntries,
+  prunableFunctions,
+  removeBackendConfigEntries,
+  writeBackendConfigEntries,
+  applyUserPoolTriggerConfig,
+  readAuthCliInputs,
+  userPoolTriggerChanges,
+  writeUserPoolTriggers,
+  pruneFunctions,
+  readTeamProviderInfo,
+  applyParameterValues,
+  writeParameterValues,
+  applyFunctionParameters,
+  writeFunctionParameters,
+  writeEnvironmentModule,
+  writeFunctionTemplate,
+  writeFunctionFiles,
+  writeFunctionBuild,
+  writeBackend,
+} from "./writer";
+export {
+  ValidationError,
+  validateLambdaFunction,
+  validateParameterValues,
+  functionDependencies,
+  validateFunctionTargets,
+  findFunctionCycle,
+} from "./validation";
+export { CFParameter } from "./buildCloudFormationTemplate";
+export { environmentModuleSource } from "./environmentModule";
+export {
+  AnalysisFinding,
+  analyzeFunction,
+  formatAnalysisFinding,
+} from "./analyze";
@@ -0,0 +1,158 @@
+import * as path from "path";
+import webpack from "webpack";
+
+// Collects the files webpack emits instead of writing them to disk
+export class MemoryOutputFileSystem implements webpack.OutputFileSystem {
+  public readonly files = new Map<string, Buffer>();
+
+  join(...paths: string[]) {
+    return path.join(...paths);
+  }
+
+  mkdir(_path: string, callback: (err: Error | undefined | null) => void) {
+    callback(null);
+  }
+
+  mkdirp(_path: string, callback: (err: Error | undefined | null) => void) {
+    callback(null);
+  }
+
+  rmdir(_path: string, callback: (err: Error | undefined | null) => void) {
+    callback(null);
+  }
+
+  unlink(filePath: string, callback: (err: Error | undefined | null) => void) {
+    this.files.delete(filePath);
+    callback(null);
+  }
+
+  writeFile(
+    filePath: string,
+    data: string | Buffer,
+    callback: (err: Error | undefined | null) => void
+  ) {
+    this.files.set(filePath, Buffer.from(data));
+    callback(null);
+  }
+}
+
+// Modules that only exist in memory, such as the environment modules, keyed
+// by absolute path. Bundles read them before the disk, webpack through
+// VirtualModulesFileSystem and ts-loader through typescriptCompiler.
+const virtualModules = new Map<string, Buffer>();
+
+export const setVirtualModule = (filePath: string, contents: string) => {
+  virtualModules.set(path.resolve(filePath), Buffer.from(contents, "utf8"));
+};
+
+export const readVirtualModule = (filePath: string) =>
+  virtualModules.get(path.resolve(filePath));
+
+const virtualModuleStats = (contents: Buffer) => ({
+  isFile: () => true,
+  isDirectory: () => false,
+  isSymbolicLink: () => false,
+  size: contents.length,
+  mtime: new Date(0),
+});
+
+// Serves the virtual modules and reads every other file from the wrapped
+// file system
+export class VirtualModulesFileSystem implements webpack.InputFileSystem {
+  constructor(
+    private readonly fileSystem: webpack.InputFileSystem & {
+      readJson?(
+        path: string,
+        callback: (err: Error | undefined | null, data: unknown) => void
+      ): void;
+    }
+  ) {}
+
+  purge() {
+    if (this.fileSystem.purge) {
+      this.fileSystem.purge();
+    }
+  }
+
+  readFile(
+    filePath: string,
+    callback: (err: Error | undefined | null, contents: Buffer) => void
+  ) {
+    const contents = readVirtualModule(filePath);
+    if (contents) {
+      callback(null, contents);
+    } else {
+      this.fileSystem.readFile(filePath, callback);
+    }
+  }
+
+  readFileSync(filePath: string) {
+    return (
+      readVirtualModule(filePath) || this.fileSystem.readFileSync(filePath)
+    );
+  }
+
+  readJson(
+    filePath: string,
+    callback: (err: Error | undefined | null, data: unknown) => void
+  ) {
+    if (this.fileSystem.readJson && !readVirtualModule(filePath)) {
+      this.fileSystem.readJson(filePath, callback);
+      return;
+    }
+    this.readFile(filePath, (err, contents) => {
+      if (err) {
+        callback(err, undefined);
+        return;
+      }
+      try {
+        callback(null, JSON.parse(contents.toString("utf8")));
+      } catch (e) {
+        callback(e, undefined);
+      }
+    });
+  }
+
+  readlink(
+    filePath: string,
+    callback: (err: Error | undefined | null, linkString: string) => void
+  ) {
+    if (readVirtualModule(filePath)) {
+      callback(notALink(filePath), "");
+    } else {
+      this.fileSystem.readlink(filePath, callback);
+    }
+  }
+
+  readlinkSync(filePath: string) {
+    if (readVirtualModule(filePath)) {
+      throw notALink(filePath);
+    }
+    return this.fileSystem.readlinkSync(filePath);
+  }
+
+  stat(
+    filePath: string,
+    callback: (err: Error | undefined | null, stats: unknown) => void
+  ) {
+    const contents = readVirtualModule(filePath);
+    if (contents) {
+      callback(null, virtualModuleStats(contents));
+    } else {
+      this.fileSystem.stat(filePath, callback);
+    }
+  }
+
+  statSync(filePath: string) {
+    const contents = readVirtualModule(filePath);
+    return contents
+      ? virtualModuleStats(contents)
+      : this.fileSystem.statSync(filePath);
+  }
+}
+
+// What readlink reports for a file that is not a symbolic link
+const notALink = (filePath: string) =>
+  Object.assign(new Error(`EINVAL: invalid argument, readlink '${filePath}'`), {
+    code: "EINVAL",
+  });
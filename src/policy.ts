@@ -0,0 +1,109 @@
+import { flatten, isEqual, omit, uniq } from "lodash";
+
+export type PolicyStatement = {
+  Effect: string;
+  Action: string | string[];
+  [key: string]: unknown;
+};
+
+// IAM limits, in characters without whitespace. The inline limit applies to
+// all inline policies of a role together.
+export const maxInlinePoliciesSize = 10240;
+export const maxManagedPolicySize = 6144;
+export const maxManagedPoliciesPerRole = 10;
+
+export const policyDocument = (statements: readonly object[]) => ({
+  Version: "2012-10-17",
+  Statement: statements,
+});
+
+// Intrinsic functions are counted as written, the resolved policy can differ
+export const estimatePolicySize = (statements: readonly object[]) =>
+  JSON.stringify(policyDocument(statements)).length;
+
+// Statements that only differ in their actions are merged, actions are
+// de-duplicated and sorted so that the output is deterministic
+export const optimizePolicyStatements = (
+  statements: readonly object[]
+): PolicyStatement[] =>
+  (statements as readonly PolicyStatement[])
+    .reduce((merged: PolicyStatement[], statement) => {
+      const index = merged.findIndex((existing) =>
+        isEqual(omit(existing, "Action"), omit(statement, "Action"))
+      );
+      if (index === -1) {
+        return [...merged, statement];
+      }
+
+      return merged.map((existing, existingIndex) =>
+        existingIndex === index
+          ? {
+              ...existing,
+              Action: flatten([existing.Action, statement.Action]),
+            }
+          : existing
+      );
+    }, [])
+    .map((statement) => ({
+      ...statement,
+      Action: uniq(flatten([statement.Action])).sort(),
+    }));
+
+export type PolicySplit = {
+  inline: PolicyStatement[];
+  managed: PolicyStatement[][];
+};
+
+// Keeps every statement inline while the role's inline policies fit,
+// otherwise all but the first `keepInline` statements are packed into
+// managed policies. Throws when the statements cannot be attached to a role.
+export const splitPolicyStatements = (
+  functionName: string,
+  statements: readonly PolicyStatement[],
+  otherInlineStatements: readonly object[],
+  keepInline: number
+): PolicySplit => {
+  const otherInlineSize =
+    otherInlineStatements.length > 0
+      ? estimatePolicySize(otherInlineStatements)
+      : 0;
+  if (
+    estimatePolicySize(statements) + otherInlineSize <=
+    maxInlinePoliciesSize
+  ) {
+    return { inline: [...statements], managed: [] };
+  }
+
+  const inline = statements.slice(0, keepInline);
+  if (estimatePolicySize(inline) + otherInlineSize > maxInlinePoliciesSize) {
+    throw new Error(
+      `The inline policies of ${functionName} need more than the ${maxInlinePoliciesSize} characters IAM allows for a role`
+    );
+  }
+
+  const managed = statements
+    .slice(keepInline)
+    .reduce((policies: PolicyStatement[][], statement) => {
+      if (estimatePolicySize([statement]) > maxManagedPolicySize) {
+        throw new Error(
+          `A policy statement of ${functionName} needs more than the ${maxManagedPolicySize} characters IAM allows for a managed policy: ${JSON.stringify(
+            statement
+          )}`
+        );
+      }
+
+      const last = policies[policies.length - 1];
+      return last &&
+        estimatePolicySize([...last, statement]) <= maxManagedPolicySize
+        ? [...policies.slice(0, -1), [...last, statement]]
+        : [...policies, [statement]];
+    }, []);
+
+  if (managed.length > maxManagedPoliciesPerRole) {
+    throw new Error(
+      `The execution policy of ${functionName} needs ${managed.length} managed policies, more than the ${maxManagedPoliciesPerRole} IAM allows for a role`
+    );
+  }
+
+  return { inline, managed };
+};
@@ -1,3 +1,5 @@
+import { pickBy } from "lodash";
+
 export class ResourceOutputReference {
   constructor(
     public readonly category: string,
@@ -17,39 +19,317 @@ export const apiTableOutputReference = (
 ): ResourceOutputReference =>
   new ResourceOutputReference("api", table.apiName, "GraphQLAPIIdOutput");
 
+export type EnvironmentValues = { readonly [environment: string]: string };
+
 export class Parameter {
   constructor(
     public readonly name: string,
-    public readonly defaultValue?: string
+    public readonly defaultValue?: string,
+    // Values for Amplify environments, keyed by environment name
+    public readonly environmentValues: EnvironmentValues = {}
   ) {}
 }
 
-export type Table = ApiTable;
+export type StorageTableOutput = "Name" | "Arn" | "StreamArn";
+
+// A table created by the Amplify storage category
+export type StorageTable = {
+  readonly type: "storageTable";
+  readonly storageName: string;
+};
+
+export const storageTableOutputReference = (
+  table: StorageTable,
+  output: StorageTableOutput
+): ResourceOutputReference =>
+  new ResourceOutputReference("storage", table.storageName, output);
+
+// A table managed outside of Amplify, identified by either `name` or `arn`
+export type ExternalTable = {
+  readonly type: "externalTable";
+  readonly name?: string | Parameter;
+  readonly arn?: string | Parameter;
+  // Required when the table is used as an event source
+  readonly streamArn?: string | Parameter;
+};
+
+export type Table = ApiTable | StorageTable | ExternalTable;
+
+export const isStorageTable = (t: Table): t is StorageTable =>
+  t.type === "storageTable";
+
+export const isExternalTable = (t: Table): t is ExternalTable =>
+  t.type === "externalTable";
+
+export const reduceTable = <B>(
+  fA: (a: ApiTable) => B,
+  fS: (s: StorageTable) => B,
+  fE: (e: ExternalTable) => B
+) => (t: Table): B => {
+  if (isStorageTable(t)) {
+    return fS(t);
+  }
+
+  if (isExternalTable(t)) {
+    return fE(t);
+  }
+
+  return fA(t);
+};
+
+// Used to derive names such as the table name environment variable
+export const tableBaseName = reduceTable(
+  ({ tableName }) => tableName,
+  ({ storageName }) => storageName,
+  ({ name, arn }) => {
+    const identifier = name || arn;
+    if (identifier === undefined) {
+      throw new Error("External tables need either a name or an arn");
+    }
+
+    if (identifier instanceof Parameter) {
+      return identifier.name;
+    }
+
+    return identifier.split("/").slice(-1)[0];
+  }
+);
 
 export type UserPool = {
   readonly type: "amplifyAuthUserPool";
   readonly authName: string;
 };
 
+// Outputs of the Amplify auth resource
+export type UserPoolOutput =
+  | "UserPoolId"
+  | "UserPoolArn"
+  | "AppClientID"
+  | "AppClientIDWeb"
+  | "IdentityPoolId";
+
 export const userPoolOutputReference = (
   userPool: UserPool,
-  output: "UserPoolId"
+  output: UserPoolOutput
 ): ResourceOutputReference =>
   new ResourceOutputReference("auth", userPool.authName, output);
 
-export type TableAction = "UpdateItem" | "ReadItem";
+// A bucket created by the Amplify storage category
+export type StorageBucket = {
+  readonly type: "storageBucket";
+  readonly storageName: string;
+};
+
+export type Bucket = StorageBucket;
+
+export const bucketOutputReference = (
+  bucket: Bucket
+): ResourceOutputReference =>
+  new ResourceOutputReference("storage", bucket.storageName, "BucketName");
+
+// A function created by the Amplify function category, such as another
+// handler in the functions directory
+export type AmplifyFunction = {
+  readonly type: "amplifyFunction";
+  readonly functionName: string;
+};
+
+export const amplifyFunctionOutputReference = (
+  lambdaFunction: AmplifyFunction,
+  output: "Name" | "Arn"
+): ResourceOutputReference =>
+  new ResourceOutputReference("function", lambdaFunction.functionName, output);
+
+export type DeadLetterQueue = {
+  // Receives after which a message is moved to the dead-letter queue
+  readonly maxReceiveCount: number;
+};
+
+// A queue created in the function's stack, named `<queueName>-<env>`
+export type FunctionQueue = {
+  readonly type: "functionQueue";
+  readonly queueName: string;
+  // In seconds, defaults to six times the function timeout as recommended
+  // for queues that trigger a function. Queues that trigger it need at least
+  // the function timeout.
+  readonly visibilityTimeout?: number;
+  // In seconds, between 60 and 1209600
+  readonly messageRetentionPeriod?: number;
+  readonly deadLetterQueue?: DeadLetterQueue;
+};
+
+// A queue managed outside of the function's stack
+export type ExternalQueue = {
+  readonly type: "externalQueue";
+  readonly arn: string | Parameter;
+};
+
+export type Queue = FunctionQueue | ExternalQueue;
+
+export const isFunctionQueue = (q: Queue): q is FunctionQueue =>
+  q.type === "functionQueue";
+
+export const reduceQueue = <B>(
+  fF: (f: FunctionQueue) => B,
+  fE: (e: ExternalQueue) => B
+) => (q: Queue): B => {
+  if (isFunctionQueue(q)) {
+    return fF(q);
+  }
+
+  return fE(q);
+};
+
+// Used to derive names such as the queue URL environment variable
+export const queueBaseName = reduceQueue(
+  ({ queueName }) => queueName,
+  ({ arn }) => (arn instanceof Parameter ? arn.name : arn.split(":")[5])
+);
+
+// A topic created in the function's stack, named `<topicName>-<env>`
+export type FunctionTopic = {
+  readonly type: "functionTopic";
+  readonly topicName: string;
+};
+
+// A topic managed outside of the function's stack
+export type ExternalTopic = {
+  readonly type: "externalTopic";
+  readonly arn: string | Parameter;
+};
+
+export type Topic = FunctionTopic | ExternalTopic;
+
+export const isFunctionTopic = (t: Topic): t is FunctionTopic =>
+  t.type === "functionTopic";
+
+export const reduceTopic = <B>(
+  fF: (f: FunctionTopic) => B,
+  fE: (e: ExternalTopic) => B
+) => (t: Topic): B => {
+  if (isFunctionTopic(t)) {
+    return fF(t);
+  }
+
+  return fE(t);
+};
+
+// Used to derive names such as the topic ARN environment variable
+export const topicBaseName = reduceTopic(
+  ({ topicName }) => topicName,
+  ({ arn }) => (arn instanceof Parameter ? arn.name : arn.split(":")[5])
+);
+
+export type TableAction =
+  | "UpdateItem"
+  | "ReadItem"
+  | "GetItem"
+  | "Query"
+  | "Scan"
+  | "PutItem"
+  | "DeleteItem"
+  | "BatchGetItem"
+  | "BatchWriteItem"
+  | "ConditionCheckItem"
+  | "TransactGetItems"
+  | "TransactWriteItems"
+  | "DescribeTable";
+
+export const readOnlyTableActions: readonly TableAction[] = [
+  "GetItem",
+  "Query",
+  "Scan",
+  "BatchGetItem",
+  "TransactGetItems",
+  "ConditionCheckItem",
+  "DescribeTable",
+];
+
+export const readWriteTableActions: readonly TableAction[] = [
+  ...readOnlyTableActions,
+  "PutItem",
+  "UpdateItem",
+  "DeleteItem",
+  "BatchWriteItem",
+  "TransactWriteItems",
+];
+
 export type TablePermission = {
   readonly type: "TablePermission";
   readonly table: Table;
   readonly actions: readonly TableAction[];
+  // Also grant the actions on all of the table's indexes or only the named ones
+  readonly indexes?: "all" | readonly string[];
 };
 
 export type UserPoolAction =
   | "ListUsers"
-  | "AdminCreateUser"
+  | "ListUsersInGroup"
+  | "ListGroups"
+  | "GetGroup"
   | "AdminGetUser"
+  | "AdminListGroupsForUser"
+  | "AdminListUserAuthEvents"
+  | "DescribeUserPool"
+  | "DescribeUserPoolClient"
+  | "AdminCreateUser"
+  | "AdminDeleteUser"
+  | "AdminUpdateUserAttributes"
+  | "AdminDeleteUserAttributes"
+  | "AdminDisableUser"
+  | "AdminEnableUser"
+  | "AdminResetUserPassword"
+  | "AdminSetUserPassword"
+  | "AdminConfirmSignUp"
+  | "AdminInitiateAuth"
+  | "AdminRespondToAuthChallenge"
+  | "AdminUserGlobalSignOut"
+  | "AdminSetUserMFAPreference"
+  | "AdminAddUserToGroup"
+  | "AdminRemoveUserFromGroup"
   | "AdminLinkProviderForUser"
-  | "AdminDeleteUser";
+  | "AdminDisableProviderForUser"
+  | "CreateGroup"
+  | "UpdateGroup"
+  | "DeleteGroup";
+
+export const readOnlyUserPoolActions: readonly UserPoolAction[] = [
+  "ListUsers",
+  "ListUsersInGroup",
+  "ListGroups",
+  "GetGroup",
+  "AdminGetUser",
+  "AdminListGroupsForUser",
+  "AdminListUserAuthEvents",
+  "DescribeUserPool",
+  "DescribeUserPoolClient",
+];
+
+// Every action, including creating, changing and signing in users
+export const adminUserPoolActions: readonly UserPoolAction[] = [
+  ...readOnlyUserPoolActions,
+  "AdminCreateUser",
+  "AdminDeleteUser",
+  "AdminUpdateUserAttributes",
+  "AdminDeleteUserAttributes",
+  "AdminDisableUser",
+  "AdminEnableUser",
+  "AdminResetUserPassword",
+  "AdminSetUserPassword",
+  "AdminConfirmSignUp",
+  "AdminInitiateAuth",
+  "AdminRespondToAuthChallenge",
+  "AdminUserGlobalSignOut",
+  "AdminSetUserMFAPreference",
+  "AdminAddUserToGroup",
+  "AdminRemoveUserFromGroup",
+  "AdminLinkProviderForUser",
+  "AdminDisableProviderForUser",
+  "CreateGroup",
+  "UpdateGroup",
+  "DeleteGroup",
+];
+
 export type UserPoolPermission = {
   readonly type: "UserPoolPermission";
   readonly userPool: UserPool;
@@ -67,17 +347,67 @@ export type IAMActionPermission = {
   readonly resources: readonly (string | ResourceOutputReference)[];
 };
 
+export type BucketAction =
+  | "GetObject"
+  | "PutObject"
+  | "DeleteObject"
+  | "ListBucket";
+export type BucketPermission = {
+  readonly type: "BucketPermission";
+  readonly bucket: Bucket;
+  readonly actions: readonly BucketAction[];
+  // Limits object actions, and the keys ListBucket returns, to this prefix
+  readonly prefix?: string;
+};
+
+// InvokeFunction covers both synchronous and asynchronous (`Event`)
+// invocations, InvokeAsync is only needed by the deprecated async API
+export type FunctionAction = "InvokeFunction" | "InvokeAsync";
+export type FunctionInvokePermission = {
+  readonly type: "FunctionInvokePermission";
+  readonly lambdaFunction: AmplifyFunction;
+  readonly actions: readonly FunctionAction[];
+};
+
+export type QueueAction =
+  | "SendMessage"
+  | "ReceiveMessage"
+  | "DeleteMessage"
+  | "ChangeMessageVisibility"
+  | "GetQueueAttributes"
+  | "PurgeQueue";
+export type QueuePermission = {
+  readonly type: "QueuePermission";
+  readonly queue: Queue;
+  readonly actions: readonly QueueAction[];
+};
+
+export type TopicAction = "Publish" | "GetTopicAttributes";
+export type TopicPermission = {
+  readonly type: "TopicPermission";
+  readonly topic: Topic;
+  readonly actions: readonly TopicAction[];
+};
+
 export type Permission =
   | TablePermission
   | UserPoolPermission
   | SendMailPermission
-  | IAMActionPermission;
+  | IAMActionPermission
+  | BucketPermission
+  | FunctionInvokePermission
+  | QueuePermission
+  | TopicPermission;
 
 export const reducePermission = <B>(
   fT: (t: TablePermission) => B,
   fU: (u: UserPoolPermission) => B,
   fS: (s: SendMailPermission) => B,
-  fI: (i: IAMActionPermission) => B
+  fI: (i: IAMActionPermission) => B,
+  fB: (b: BucketPermission) => B,
+  fF: (f: FunctionInvokePermission) => B,
+  fQ: (q: QueuePermission) => B,
+  fN: (n: TopicPermission) => B
 ) => (p: Permission): B => {
   if (isTablePermission(p)) {
     return fT(p);
@@ -91,21 +421,414 @@ export const reducePermission = <B>(
     return fI(p);
   }
 
+  if (isBucketPermission(p)) {
+    return fB(p);
+  }
+
+  if (isFunctionInvokePermission(p)) {
+    return fF(p);
+  }
+
+  if (isQueuePermission(p)) {
+    return fQ(p);
+  }
+
+  if (isTopicPermission(p)) {
+    return fN(p);
+  }
+
   return fU(p);
 };
 
-export type Region = "us-east-1" | "us-west-1";
-export type Runtime = "nodejs10.x" | "nodejs12.x";
+export type ScheduleUnit = "minute" | "hour" | "day";
+
+export type RateExpression = {
+  readonly type: "rate";
+  // A positive integer
+  readonly value: number;
+  readonly unit: ScheduleUnit;
+};
+
+export type CronExpression = {
+  readonly type: "cron";
+  readonly expression: string;
+};
+
+export type ScheduleExpression = RateExpression | CronExpression;
+
+export const rate = (value: number, unit: ScheduleUnit): RateExpression => ({
+  type: "rate",
+  value,
+  unit,
+});
+
+export const cron = (expression: string): CronExpression => ({
+  type: "cron",
+  expression,
+});
+
+export const reduceScheduleExpression = <B>(
+  fR: (r: RateExpression) => B,
+  fC: (c: CronExpression) => B
+) => (e: ScheduleExpression): B => {
+  if (e.type === "rate") {
+    return fR(e);
+  }
+
+  return fC(e);
+};
+
+export type Schedule = {
+  readonly type: "schedule";
+  readonly schedule: ScheduleExpression;
+  // Whether the rule is enabled when the current Amplify env is not listed
+  // in `environments`, defaults to true
+  readonly enabled?: boolean;
+  // Per Amplify env overrides of `enabled`, keyed by env name
+  readonly environments?: { readonly [env: string]: boolean };
+  // Static payload passed to the function instead of the scheduled event
+  readonly input?: object;
+};
+
+export type StartingPosition = "LATEST" | "TRIM_HORIZON";
+
+export type FailureDestination = {
+  readonly type: "sqs" | "sns";
+  readonly arn: string | VariableValueExpression;
+};
+
+export type StreamMappingOptions = {
+  // Between 1 and 10000
+  readonly batchSize?: number;
+  // Between 0 and 300
+  readonly maximumBatchingWindowInSeconds?: number;
+  readonly startingPosition?: StartingPosition;
+  // Event filter patterns, each one is serialized into a FilterCriteria filter
+  readonly filterPatterns?: readonly object[];
+  readonly bisectBatchOnFunctionError?: boolean;
+  // Between 0 and 10000, -1 retries until the record expires
+  readonly maximumRetryAttempts?: number;
+  // Between 60 and 604800, -1 keeps records until they expire
+  readonly maximumRecordAgeInSeconds?: number;
+  // Between 1 and 10 concurrent batches per shard
+  readonly parallelizationFactor?: number;
+  readonly onFailure?: FailureDestination;
+};
+
+export type TableStream = StreamMappingOptions & {
+  readonly type: "tableStream";
+  readonly table: Table;
+};
+
+export const tableStream = (
+  table: Table,
+  options: StreamMappingOptions = {}
+): TableStream => ({
+  ...options,
+  type: "tableStream",
+  table,
+});
+
+export type BucketEvent = "ObjectCreated" | "ObjectRemoved";
+
+export type BucketNotification = {
+  readonly type: "bucketNotification";
+  readonly bucket: Bucket;
+  readonly events: readonly BucketEvent[];
+  readonly prefix?: string;
+  readonly suffix?: string;
+};
 
-export type LambdaFunction = {
+// Keys of the user pool's LambdaConfig that the auth category can connect,
+// it does not support UserMigration
+export type UserPoolTriggerType =
+  | "PreSignUp"
+  | "PostConfirmation"
+  | "PreAuthentication"
+  | "PostAuthentication"
+  | "PreTokenGeneration"
+  | "CustomMessage"
+  | "DefineAuthChallenge"
+  | "CreateAuthChallenge"
+  | "VerifyAuthChallengeResponse";
+
+// The auth resource invokes the function, which therefore cannot depend on
+// the user pool itself
+export type UserPoolTrigger = {
+  readonly type: "userPoolTrigger";
+  readonly userPool: UserPool;
+  readonly trigger: UserPoolTriggerType;
+};
+
+export const userPoolTrigger = (
+  userPool: UserPool,
+  trigger: UserPoolTriggerType
+): UserPoolTrigger => ({
+  type: "userPoolTrigger",
+  userPool,
+  trigger,
+});
+
+export type QueueMappingOptions = {
+  // Between 1 and 10000, batches of more than 10 messages need a batching
+  // window
+  readonly batchSize?: number;
+  readonly maximumBatchingWindowInSeconds?: number;
+  // The function returns the messages that failed instead of failing the
+  // whole batch
+  readonly reportBatchItemFailures?: boolean;
+  // Between 2 and 1000 concurrent invocations
+  readonly maximumConcurrency?: number;
+  // Event filter patterns, each one is serialized into a FilterCriteria filter
+  readonly filterPatterns?: readonly object[];
+};
+
+export type QueueMessages = QueueMappingOptions & {
+  readonly type: "queueMessages";
+  readonly queue: Queue;
+};
+
+export const queueMessages = (
+  queue: Queue,
+  options: QueueMappingOptions = {}
+): QueueMessages => ({
+  ...options,
+  type: "queueMessages",
+  queue,
+});
+
+export type TopicSubscriptionOptions = {
+  // Only messages matching the policy invoke the function
+  readonly filterPolicy?: object;
+  // Defaults to matching the message attributes
+  readonly filterPolicyScope?: "MessageAttributes" | "MessageBody";
+};
+
+export type TopicMessages = TopicSubscriptionOptions & {
+  readonly type: "topicMessages";
+  readonly topic: Topic;
+};
+
+export const topicMessages = (
+  topic: Topic,
+  options: TopicSubscriptionOptions = {}
+): TopicMessages => ({
+  ...options,
+  type: "topicMessages",
+  topic,
+});
+
+export type EventSource =
+  | Table
+  | TableStream
+  | Schedule
+  | BucketNotification
+  | UserPoolTrigger
+  | QueueMessages
+  | TopicMessages;
+
+export const isSchedule = (e: EventSource): e is Schedule =>
+  e.type === "schedule";
+
+export const isTableStream = (e: EventSource): e is TableStream =>
+  e.type === "tableStream";
+
+export const isBucketNotification = (e: EventSource): e is BucketNotification =>
+  e.type === "bucketNotification";
+
+export const isUserPoolTrigger = (e: EventSource): e is UserPoolTrigger =>
+  e.type === "userPoolTrigger";
+
+export const isQueueMessages = (e: EventSource): e is QueueMessages =>
+  e.type === "queueMessages";
+
+export const isTopicMessages = (e: EventSource): e is TopicMessages =>
+  e.type === "topicMessages";
+
+export const reduceEventSource = <B>(
+  fT: (t: Table) => B,
+  fTS: (t: TableStream) => B,
+  fS: (s: Schedule) => B,
+  fB: (b: BucketNotification) => B,
+  fU: (u: UserPoolTrigger) => B,
+  fQ: (q: QueueMessages) => B,
+  fN: (n: TopicMessages) => B
+) => (e: EventSource): B => {
+  if (isSchedule(e)) {
+    return fS(e);
+  }
+
+  if (isQueueMessages(e)) {
+    return fQ(e);
+  }
+
+  if (isTopicMessages(e)) {
+    return fN(e);
+  }
+
+  if (isUserPoolTrigger(e)) {
+    return fU(e);
+  }
+
+  if (isBucketNotification(e)) {
+    return fB(e);
+  }
+
+  if (isTableStream(e)) {
+    return fTS(e);
+  }
+
+  return fT(e);
+};
+
+// A layer created by the Amplify function category
+export type AmplifyLayer = {
+  readonly type: "amplifyLayer";
+  readonly layerName: string;
+  // Bundled as externals in addition to the dependencies listed in the
+  // layer's lib/nodejs/package.json
+  readonly packages?: readonly string[];
+};
+
+export type LayerVersion = {
+  readonly type: "layerVersion";
+  readonly arn: string | Parameter;
+  // Packages provided by the layer, these are not bundled with the function
+  readonly packages?: readonly string[];
+};
+
+export type Layer = AmplifyLayer | LayerVersion;
+
+export const amplifyLayerOutputReference = (
+  layer: AmplifyLayer
+): ResourceOutputReference =>
+  new ResourceOutputReference("function", layer.layerName, "Arn");
+
+export const isAmplifyLayer = (l: Layer): l is AmplifyLayer =>
+  l.type === "amplifyLayer";
+
+export const reduceLayer = <B>(
+  fA: (a: AmplifyLayer) => B,
+  fV: (v: LayerVersion) => B
+) => (l: Layer): B => {
+  if (isAmplifyLayer(l)) {
+    return fA(l);
+  }
+
+  return fV(l);
+};
+
+export type Region =
+  | "us-east-1"
+  | "us-east-2"
+  | "us-west-1"
+  | "us-west-2"
+  | "af-south-1"
+  | "ap-east-1"
+  | "ap-east-2"
+  | "ap-south-1"
+  | "ap-south-2"
+  | "ap-northeast-1"
+  | "ap-northeast-2"
+  | "ap-northeast-3"
+  | "ap-southeast-1"
+  | "ap-southeast-2"
+  | "ap-southeast-3"
+  | "ap-southeast-4"
+  | "ap-southeast-5"
+  | "ap-southeast-6"
+  | "ap-southeast-7"
+  | "ca-central-1"
+  | "ca-west-1"
+  | "eu-central-1"
+  | "eu-central-2"
+  | "eu-west-1"
+  | "eu-west-2"
+  | "eu-west-3"
+  | "eu-south-1"
+  | "eu-south-2"
+  | "eu-north-1"
+  | "il-central-1"
+  | "me-south-1"
+  | "me-central-1"
+  | "mx-central-1"
+  | "sa-east-1";
+// Node.js runtimes that Lambda has not deprecated
+export type Runtime = "nodejs22.x" | "nodejs24.x";
+
+export const defaultRuntime: Runtime = "nodejs22.x";
+export type Architecture = "x86_64" | "arm64";
+
+export type FunctionSizing = {
+  // In MB, between 128 and 10240
+  readonly memorySize?: number;
+  // In seconds, between 1 and 900
+  readonly timeout?: number;
+  readonly reservedConcurrentExecutions?: number;
+  readonly architecture?: Architecture;
+  // Size of /tmp in MB, between 512 and 10240
+  readonly ephemeralStorageSize?: number;
+};
+
+export const defaultFunctionSizing: FunctionSizing = {
+  memorySize: 128,
+  timeout: 25,
+  architecture: "x86_64",
+  ephemeralStorageSize: 512,
+};
+
+// Settings shared by every function in the functions directory, loaded from
+// the default export of its `defaults` module
+export type ProjectDefaults = FunctionSizing;
+
+export const resolveFunctionSizing = (
+  lambdaFunction: LambdaFunction,
+  projectDefaults: ProjectDefaults = {}
+): FunctionSizing => {
+  const pickSizing = ({
+    memorySize,
+    timeout,
+    reservedConcurrentExecutions,
+    architecture,
+    ephemeralStorageSize,
+  }: FunctionSizing) =>
+    pickBy(
+      {
+        memorySize,
+        timeout,
+        reservedConcurrentExecutions,
+        architecture,
+        ephemeralStorageSize,
+      },
+      (value) => value !== undefined
+    );
+
+  return {
+    ...defaultFunctionSizing,
+    ...pickSizing(projectDefaults),
+    ...pickSizing(lambdaFunction),
+  };
+};
+
+export type LambdaFunction = FunctionSizing & {
   readonly permissions: readonly Permission[];
   readonly environment: readonly EnvironmentVariable[];
-  readonly eventSource?: Table;
+  // Prefer `eventSources`, kept for functions with a single source
+  readonly eventSource?: EventSource;
+  readonly eventSources?: readonly EventSource[];
+  readonly layers?: readonly Layer[];
   readonly runtime?: Runtime;
   readonly region?: Region;
   readonly handlerSrc?: string;
 };
 
+export const functionEventSources = (
+  lambdaFunction: LambdaFunction
+): EventSource[] => [
+  ...(lambdaFunction.eventSource ? [lambdaFunction.eventSource] : []),
+  ...(lambdaFunction.eventSources || []),
+];
+
 export const isTablePermission = (t: Permission): t is TablePermission =>
   t.type === "TablePermission";
 
@@ -119,11 +842,60 @@ export const isIAMActionPermission = (
   t: Permission
 ): t is IAMActionPermission => t.type === "IAMActionPermission";
 
-export const resourceRefForTable = (table: Table): ResourceOutputReference =>
+export const isBucketPermission = (t: Permission): t is BucketPermission =>
+  t.type === "BucketPermission";
+
+export const isFunctionInvokePermission = (
+  t: Permission
+): t is FunctionInvokePermission => t.type === "FunctionInvokePermission";
+
+export const isQueuePermission = (t: Permission): t is QueuePermission =>
+  t.type === "QueuePermission";
+
+export const isTopicPermission = (t: Permission): t is TopicPermission =>
+  t.type === "TopicPermission";
+
+export const resourceRefForTable = (table: ApiTable): ResourceOutputReference =>
   new ResourceOutputReference("api", table.apiName, "GraphQLAPIIdOutput");
 
 export class TableNameVariable {
-  constructor(public readonly table: Table) {}
+  constructor(
+    public readonly table: Table,
+    // Defaults to `<TABLE>_TABLE_NAME`
+    public readonly name?: string
+  ) {}
+}
+
+export class BucketNameVariable {
+  constructor(
+    public readonly bucket: Bucket,
+    // Defaults to `<STORAGE>_BUCKET_NAME`
+    public readonly name?: string
+  ) {}
+}
+
+export class FunctionNameVariable {
+  constructor(
+    public readonly lambdaFunction: AmplifyFunction,
+    // Defaults to `<FUNCTION>_FUNCTION_NAME`
+    public readonly name?: string
+  ) {}
+}
+
+export class QueueUrlVariable {
+  constructor(
+    public readonly queue: Queue,
+    // Defaults to `<QUEUE>_QUEUE_URL`
+    public readonly name?: string
+  ) {}
+}
+
+export class TopicArnVariable {
+  constructor(
+    public readonly topic: Topic,
+    // Defaults to `<TOPIC>_TOPIC_ARN`
+    public readonly name?: string
+  ) {}
 }
 
 export class ParameterVariable {
@@ -161,17 +933,54 @@ export class CoalescedVariable {
   ) {}
 }
 
+// Holds the secret's name or ARN, the function reads the value itself.
+// Parameters are expected to hold the secret's name.
+export class SecretVariable {
+  constructor(
+    public readonly name: string,
+    public readonly secret: string | Parameter,
+    // ID or ARN of the KMS key the secret is encrypted with, if not the
+    // AWS managed key. Parameters are expected to hold a key ID.
+    public readonly kmsKey?: string | Parameter
+  ) {}
+}
+
+// Holds the name of an SSM parameter. A name ending with `/` is a path and
+// grants access to every parameter below it, parameters are expected to hold
+// a single hierarchical name such as `/app/prod/key`.
+export class SsmParameterVariable {
+  constructor(
+    public readonly name: string,
+    public readonly parameterName: string | Parameter,
+    // ID or ARN of the KMS key SecureString values are encrypted with, if not
+    // the AWS managed key. Parameters are expected to hold a key ID.
+    public readonly kmsKey?: string | Parameter
+  ) {}
+}
+
 export type EnvironmentVariable =
   | TableNameVariable
   | ParameterVariable
   | ResourceOutputVariable
-  | CoalescedVariable;
+  | CoalescedVariable
+  | BucketNameVariable
+  | SecretVariable
+  | SsmParameterVariable
+  | FunctionNameVariable
+  | QueueUrlVariable
+  | TopicArnVariable;
 
 export const reduceEnvionmentVariable = <B>(
   fT: (t: TableNameVariable) => B,
   fP: (u: ParameterVariable) => B,
   fR: (s: ResourceOutputVariable) => B,
-  fC: (c: CoalescedVariable) => B
+  fC: (c: CoalescedVariable) => B,
+  fB: (b: BucketNameVariable) => B,
+  fS: (s: SecretVariable) => B,
+  fM: (m: SsmParameterVariable) => B,
+  fF: (f: FunctionNameVariable) => B,
+  fQ: (q: QueueUrlVariable) => B,
+  fN: (n: TopicArnVariable) => B
 ) => (v: EnvironmentVariable): B => {
   if (v instanceof TableNameVariable) {
     return fT(v);
@@ -185,5 +994,29 @@ export const reduceEnvionmentVariable = <B>(
     return fR(v);
   }
 
+  if (v instanceof BucketNameVariable) {
+    return fB(v);
+  }
+
+  if (v instanceof SecretVariable) {
+    return fS(v);
+  }
+
+  if (v instanceof SsmParameterVariable) {
+    return fM(v);
+  }
+
+  if (v instanceof FunctionNameVariable) {
+    return fF(v);
+  }
+
+  if (v instanceof QueueUrlVariable) {
+    return fQ(v);
+  }
+
+  if (v instanceof TopicArnVariable) {
+    return fN(v);
+  }
+
   return fC(v);
 };
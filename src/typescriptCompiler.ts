@@ -0,0 +1,18 @@
+import typescript from "typescript";
+import { readVirtualModule } from "./memoryFileSystem";
+
+// The TypeScript compiler given to ts-loader, which type checks against the
+// files it reads through `sys`. Virtual modules are found there as well.
+export = Object.assign(Object.create(typescript), {
+  sys: {
+    ...typescript.sys,
+    fileExists: (filePath: string) =>
+      !!readVirtualModule(filePath) || typescript.sys.fileExists(filePath),
+    readFile: (filePath: string, encoding?: string) => {
+      const contents = readVirtualModule(filePath);
+      return contents
+        ? contents.toString("utf8")
+        : typescript.sys.readFile(filePath, encoding);
+    },
+  },
+});
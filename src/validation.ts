@@ -0,0 +1,835 @@
+import { flatten, uniq } from "lodash";
+import { CFEnvironment, CFParameter } from "./buildCloudFormationTemplate";
+import {
+  BucketAction,
+  BucketNameVariable,
+  CoalescedVariable,
+  EnvironmentVariable,
+  EventSource,
+  FunctionAction,
+  FunctionNameVariable,
+  FunctionSizing,
+  isFunctionInvokePermission,
+  isFunctionQueue,
+  LambdaFunction,
+  Layer,
+  Parameter,
+  ParameterVariable,
+  Permission,
+  ProjectDefaults,
+  Queue,
+  QueueAction,
+  QueueMessages,
+  QueueUrlVariable,
+  Topic,
+  TopicAction,
+  TopicArnVariable,
+  resolveFunctionSizing,
+  ResourceOutputVariable,
+  Runtime,
+  Schedule,
+  SecretVariable,
+  SsmParameterVariable,
+  Table,
+  TableAction,
+  TableNameVariable,
+  TableStream,
+  UserPoolAction,
+  UserPoolTriggerType,
+} from "./types";
+
+export type ValidationError = {
+  // Location of the problem in the metadata, e.g. `permissions[1].actions`
+  path: string;
+  message: string;
+};
+
+const isIntegerBetween = (value: number, min: number, max: number) =>
+  Number.isInteger(value) && value >= min && value <= max;
+
+const validateFunctionSizing = ({
+  memorySize,
+  timeout,
+  reservedConcurrentExecutions,
+  architecture,
+  ephemeralStorageSize,
+}: FunctionSizing): ValidationError[] => [
+  ...(memorySize !== undefined && !isIntegerBetween(memorySize, 128, 10240)
+    ? [
+        {
+          path: "memorySize",
+          message: `must be an integer between 128 and 10240, got ${memorySize}`,
+        },
+      ]
+    : []),
+  ...(timeout !== undefined && !isIntegerBetween(timeout, 1, 900)
+    ? [
+        {
+          path: "timeout",
+          message: `must be an integer between 1 and 900, got ${timeout}`,
+        },
+      ]
+    : []),
+  ...(reservedConcurrentExecutions !== undefined &&
+  !isIntegerBetween(reservedConcurrentExecutions, 0, Number.MAX_SAFE_INTEGER)
+    ? [
+        {
+          path: "reservedConcurrentExecutions",
+          message: `must be a non-negative integer, got ${reservedConcurrentExecutions}`,
+        },
+      ]
+    : []),
+  ...(architecture !== undefined &&
+  architecture !== "x86_64" &&
+  architecture !== "arm64"
+    ? [
+        {
+          path: "architecture",
+          message: `must be "x86_64" or "arm64", got ${architecture}`,
+        },
+      ]
+    : []),
+  ...(ephemeralStorageSize !== undefined &&
+  !isIntegerBetween(ephemeralStorageSize, 512, 10240)
+    ? [
+        {
+          path: "ephemeralStorageSize",
+          message: `must be an integer between 512 and 10240, got ${ephemeralStorageSize}`,
+        },
+      ]
+    : []),
+];
+
+// Each event source of the function with its path in the metadata
+export const eventSourcePaths = ({
+  eventSource,
+  eventSources,
+}: LambdaFunction): { source: EventSource; at: string }[] => [
+  ...(eventSource !== undefined
+    ? [{ source: eventSource, at: "eventSource" }]
+    : []),
+  ...(eventSources || []).map((source, index) => ({
+    source,
+    at: `eventSources[${index}]`,
+  })),
+];
+
+const validateIntegerBetween = (
+  value: number | undefined,
+  min: number,
+  max: number,
+  path: string
+): ValidationError[] =>
+  value !== undefined && !isIntegerBetween(value, min, max)
+    ? [
+        {
+          path,
+          message: `must be an integer between ${min} and ${max}, got ${value}`,
+        },
+      ]
+    : [];
+
+// Messages stay invisible to other consumers for the visibility timeout, a
+// shorter one than the function's timeout makes Lambda reject the mapping
+const validateQueueMappingLimits = (
+  source: QueueMessages,
+  { timeout }: FunctionSizing,
+  at: string
+): ValidationError[] => [
+  ...validateIntegerBetween(source.batchSize, 1, 10000, `${at}.batchSize`),
+  ...validateIntegerBetween(
+    source.maximumBatchingWindowInSeconds,
+    0,
+    300,
+    `${at}.maximumBatchingWindowInSeconds`
+  ),
+  ...(source.batchSize !== undefined &&
+  source.batchSize > 10 &&
+  !source.maximumBatchingWindowInSeconds
+    ? [
+        {
+          path: `${at}.maximumBatchingWindowInSeconds`,
+          message: "must be at least 1 when batchSize is more than 10",
+        },
+      ]
+    : []),
+  ...validateIntegerBetween(
+    source.maximumConcurrency,
+    2,
+    1000,
+    `${at}.maximumConcurrency`
+  ),
+  ...(isFunctionQueue(source.queue) &&
+  source.queue.visibilityTimeout !== undefined &&
+  timeout !== undefined &&
+  !isIntegerBetween(source.queue.visibilityTimeout, timeout, 43200)
+    ? [
+        {
+          path: `${at}.queue.visibilityTimeout`,
+          message: `must be an integer between the function timeout of ${timeout} and 43200, got ${source.queue.visibilityTimeout}`,
+        },
+      ]
+    : []),
+];
+
+const validateStreamMappingLimits = (
+  source: TableStream,
+  at: string
+): ValidationError[] => [
+  ...validateIntegerBetween(source.batchSize, 1, 10000, `${at}.batchSize`),
+  ...validateIntegerBetween(
+    source.maximumBatchingWindowInSeconds,
+    0,
+    300,
+    `${at}.maximumBatchingWindowInSeconds`
+  ),
+  ...validateIntegerBetween(
+    source.maximumRetryAttempts,
+    -1,
+    10000,
+    `${at}.maximumRetryAttempts`
+  ),
+  ...(source.maximumRecordAgeInSeconds !== undefined &&
+  source.maximumRecordAgeInSeconds !== -1 &&
+  !isIntegerBetween(source.maximumRecordAgeInSeconds, 60, 604800)
+    ? [
+        {
+          path: `${at}.maximumRecordAgeInSeconds`,
+          message: `must be -1 or an integer between 60 and 604800, got ${source.maximumRecordAgeInSeconds}`,
+        },
+      ]
+    : []),
+  ...validateIntegerBetween(
+    source.parallelizationFactor,
+    1,
+    10,
+    `${at}.parallelizationFactor`
+  ),
+];
+
+const validateScheduleRate = (
+  { schedule }: Schedule,
+  at: string
+): ValidationError[] =>
+  schedule &&
+  schedule.type === "rate" &&
+  !isIntegerBetween(schedule.value, 1, Number.MAX_SAFE_INTEGER)
+    ? [
+        {
+          path: `${at}.schedule.value`,
+          message: `must be a positive integer, got ${schedule.value}`,
+        },
+      ]
+    : [];
+
+// Keyed by every member of the union so the compiler flags missing entries
+const knownPermissionTypes: { [type in Permission["type"]]: true } = {
+  TablePermission: true,
+  UserPoolPermission: true,
+  SendMailPermission: true,
+  IAMActionPermission: true,
+  BucketPermission: true,
+  FunctionInvokePermission: true,
+  QueuePermission: true,
+  TopicPermission: true,
+};
+
+const knownTableActions: { [action in TableAction]: true } = {
+  UpdateItem: true,
+  ReadItem: true,
+  GetItem: true,
+  Query: true,
+  Scan: true,
+  PutItem: true,
+  DeleteItem: true,
+  BatchGetItem: true,
+  BatchWriteItem: true,
+  ConditionCheckItem: true,
+  TransactGetItems: true,
+  TransactWriteItems: true,
+  DescribeTable: true,
+};
+
+const knownUserPoolActions: { [action in UserPoolAction]: true } = {
+  ListUsers: true,
+  ListUsersInGroup: true,
+  ListGroups: true,
+  GetGroup: true,
+  AdminGetUser: true,
+  AdminListGroupsForUser: true,
+  AdminListUserAuthEvents: true,
+  DescribeUserPool: true,
+  DescribeUserPoolClient: true,
+  AdminCreateUser: true,
+  AdminDeleteUser: true,
+  AdminUpdateUserAttributes: true,
+  AdminDeleteUserAttributes: true,
+  AdminDisableUser: true,
+  AdminEnableUser: true,
+  AdminResetUserPassword: true,
+  AdminSetUserPassword: true,
+  AdminConfirmSignUp: true,
+  AdminInitiateAuth: true,
+  AdminRespondToAuthChallenge: true,
+  AdminUserGlobalSignOut: true,
+  AdminSetUserMFAPreference: true,
+  AdminAddUserToGroup: true,
+  AdminRemoveUserFromGroup: true,
+  AdminLinkProviderForUser: true,
+  AdminDisableProviderForUser: true,
+  CreateGroup: true,
+  UpdateGroup: true,
+  DeleteGroup: true,
+};
+
+const knownBucketActions: { [action in BucketAction]: true } = {
+  GetObject: true,
+  PutObject: true,
+  DeleteObject: true,
+  ListBucket: true,
+};
+
+const knownFunctionActions: { [action in FunctionAction]: true } = {
+  InvokeFunction: true,
+  InvokeAsync: true,
+};
+
+const knownQueueActions: { [action in QueueAction]: true } = {
+  SendMessage: true,
+  ReceiveMessage: true,
+  DeleteMessage: true,
+  ChangeMessageVisibility: true,
+  GetQueueAttributes: true,
+  PurgeQueue: true,
+};
+
+const knownTopicActions: { [action in TopicAction]: true } = {
+  Publish: true,
+  GetTopicAttributes: true,
+};
+
+const iamActionPattern = /^[a-z0-9-]+:[A-Za-z0-9*]+$/;
+
+const knownActionsForPermission = (
+  permission: Permission
+): { [action: string]: true } | undefined => {
+  switch (permission.type) {
+    case "TablePermission":
+      return knownTableActions;
+    case "UserPoolPermission":
+      return knownUserPoolActions;
+    case "BucketPermission":
+      return knownBucketActions;
+    case "FunctionInvokePermission":
+      return knownFunctionActions;
+    case "QueuePermission":
+      return knownQueueActions;
+    case "TopicPermission":
+      return knownTopicActions;
+    default:
+      return undefined;
+  }
+};
+
+const validatePermission = (
+  permission: Permission,
+  at: string
+): ValidationError[] => {
+  if (
+    !permission ||
+    !Object.prototype.hasOwnProperty.call(knownPermissionTypes, permission.type)
+  ) {
+    return [
+      {
+        path: `${at}.type`,
+        message: `unknown permission kind ${JSON.stringify(
+          permission && permission.type
+        )}`,
+      },
+    ];
+  }
+
+  if (permission.type === "SendMailPermission") {
+    return [];
+  }
+
+  if (!Array.isArray(permission.actions) || permission.actions.length === 0) {
+    return [
+      { path: `${at}.actions`, message: "must list at least one action" },
+    ];
+  }
+
+  const knownActions = knownActionsForPermission(permission);
+  return (permission.actions as readonly string[])
+    .map((action, index) => ({ action, index }))
+    .filter(({ action }) =>
+      knownActions
+        ? !Object.prototype.hasOwnProperty.call(knownActions, action)
+        : !iamActionPattern.test(action)
+    )
+    .map(({ action, index }) => ({
+      path: `${at}.actions[${index}]`,
+      message: `unknown action ${JSON.stringify(action)}`,
+    }));
+};
+
+const isKnownVariable = (variable: EnvironmentVariable) =>
+  variable instanceof TableNameVariable ||
+  variable instanceof ParameterVariable ||
+  variable instanceof ResourceOutputVariable ||
+  variable instanceof CoalescedVariable ||
+  variable instanceof BucketNameVariable ||
+  variable instanceof SecretVariable ||
+  variable instanceof SsmParameterVariable ||
+  variable instanceof FunctionNameVariable ||
+  variable instanceof QueueUrlVariable ||
+  variable instanceof TopicArnVariable;
+
+// Set by the generated template or by the Lambda runtime itself
+export const reservedVariableNames = [
+  "ENV",
+  "REGION",
+  "_HANDLER",
+  "_X_AMZN_TRACE_ID",
+  "AWS_DEFAULT_REGION",
+  "AWS_REGION",
+  "AWS_EXECUTION_ENV",
+  "AWS_LAMBDA_FUNCTION_NAME",
+  "AWS_LAMBDA_FUNCTION_MEMORY_SIZE",
+  "AWS_LAMBDA_FUNCTION_VERSION",
+  "AWS_LAMBDA_INITIALIZATION_TYPE",
+  "AWS_LAMBDA_LOG_GROUP_NAME",
+  "AWS_LAMBDA_LOG_STREAM_NAME",
+  "AWS_ACCESS_KEY",
+  "AWS_ACCESS_KEY_ID",
+  "AWS_SECRET_ACCESS_KEY",
+  "AWS_SESSION_TOKEN",
+  "AWS_LAMBDA_RUNTIME_API",
+  "LAMBDA_TASK_ROOT",
+  "LAMBDA_RUNTIME_DIR",
+];
+
+const variableNamePattern = /^[a-zA-Z][a-zA-Z0-9_]*$/;
+
+// Lambda limits the combined size of all variable names and values
+const maxEnvironmentSize = 4096;
+
+// Values that are only known at deploy time count as empty, so this is the
+// smallest size the environment can have
+const knownVariableValueSize = (variable: EnvironmentVariable) => {
+  if (variable instanceof ParameterVariable) {
+    return (variable.parameter.defaultValue || "").length;
+  }
+
+  if (variable instanceof CoalescedVariable) {
+    return variable.first instanceof Parameter
+      ? (variable.first.defaultValue || "").length
+      : 0;
+  }
+
+  if (variable instanceof SecretVariable) {
+    return typeof variable.secret === "string" ? variable.secret.length : 0;
+  }
+
+  if (variable instanceof SsmParameterVariable) {
+    return typeof variable.parameterName === "string"
+      ? variable.parameterName.length
+      : 0;
+  }
+
+  return 0;
+};
+
+const validateEnvironment = (
+  environment: readonly EnvironmentVariable[]
+): ValidationError[] => {
+  const errors: ValidationError[] = [];
+  const seen = new Map<string, number>();
+  let environmentSize = 0;
+
+  environment.forEach((variable, index) => {
+    const at = `environment[${index}]`;
+    if (!isKnownVariable(variable)) {
+      errors.push({
+        path: at,
+        message: `unknown environment variable kind ${
+          variable && variable.constructor
+            ? variable.constructor.name
+            : typeof variable
+        }`,
+      });
+      return;
+    }
+
+    let name: string;
+    try {
+      name = CFEnvironment.toVariable(variable).name;
+    } catch (e) {
+      errors.push({ path: at, message: e.message });
+      return;
+    }
+
+    if (!variableNamePattern.test(name)) {
+      errors.push({
+        path: `${at}.name`,
+        message: `${JSON.stringify(
+          name
+        )} must start with a letter and contain only letters, digits and underscores`,
+      });
+    }
+
+    if (reservedVariableNames.includes(name)) {
+      errors.push({
+        path: `${at}.name`,
+        message: `${name} is reserved`,
+      });
+    }
+
+    const firstIndex = seen.get(name);
+    if (firstIndex !== undefined) {
+      errors.push({
+        path: `${at}.name`,
+        message: `${name} is already declared by environment[${firstIndex}]`,
+      });
+    } else {
+      seen.set(name, index);
+    }
+
+    environmentSize += name.length + knownVariableValueSize(variable);
+  });
+
+  if (environmentSize > maxEnvironmentSize) {
+    errors.push({
+      path: "environment",
+      message: `needs at least ${environmentSize} bytes, more than the ${maxEnvironmentSize} bytes Lambda allows`,
+    });
+  }
+
+  return errors;
+};
+
+const knownEventSourceTypes: { [type in EventSource["type"]]: true } = {
+  apiTable: true,
+  storageTable: true,
+  externalTable: true,
+  tableStream: true,
+  schedule: true,
+  bucketNotification: true,
+  userPoolTrigger: true,
+  queueMessages: true,
+  topicMessages: true,
+};
+
+const knownTableTypes: { [type in Table["type"]]: true } = {
+  apiTable: true,
+  storageTable: true,
+  externalTable: true,
+};
+
+const knownQueueTypes: { [type in Queue["type"]]: true } = {
+  functionQueue: true,
+  externalQueue: true,
+};
+
+const knownTopicTypes: { [type in Topic["type"]]: true } = {
+  functionTopic: true,
+  externalTopic: true,
+};
+
+const knownLayerTypes: { [type in Layer["type"]]: true } = {
+  amplifyLayer: true,
+  layerVersion: true,
+};
+
+const knownRuntimes: { [runtime in Runtime]: true } = {
+  "nodejs22.x": true,
+  "nodejs24.x": true,
+};
+
+const knownUserPoolTriggers: { [trigger in UserPoolTriggerType]: true } = {
+  PreSignUp: true,
+  PostConfirmation: true,
+  PreAuthentication: true,
+  PostAuthentication: true,
+  PreTokenGeneration: true,
+  CustomMessage: true,
+  DefineAuthChallenge: true,
+  CreateAuthChallenge: true,
+  VerifyAuthChallengeResponse: true,
+};
+
+// Values of an unknown `type` would otherwise be handled as one of the known
+// kinds and produce a broken template
+const validateKind = (
+  value: { type: string } | undefined,
+  knownTypes: { [type: string]: true },
+  kind: string,
+  at: string
+): ValidationError[] =>
+  value && Object.prototype.hasOwnProperty.call(knownTypes, value.type)
+    ? []
+    : [
+        {
+          path: `${at}.type`,
+          message: `unknown ${kind} kind ${JSON.stringify(
+            value && value.type
+          )}`,
+        },
+      ];
+
+// Mapping limits are only checked once the source's resources are known
+const validateEventSource = (
+  source: EventSource,
+  at: string,
+  sizing: FunctionSizing
+): ValidationError[] => {
+  const kindErrors = validateKind(
+    source,
+    knownEventSourceTypes,
+    "event source",
+    at
+  );
+  if (kindErrors.length > 0) {
+    return kindErrors;
+  }
+
+  switch (source.type) {
+    case "tableStream":
+      return [
+        ...validateKind(source.table, knownTableTypes, "table", `${at}.table`),
+        ...validateStreamMappingLimits(source, at),
+      ];
+    case "queueMessages": {
+      const queueErrors = validateKind(
+        source.queue,
+        knownQueueTypes,
+        "queue",
+        `${at}.queue`
+      );
+      return queueErrors.length > 0
+        ? queueErrors
+        : validateQueueMappingLimits(source, sizing, at);
+    }
+    case "schedule":
+      return validateScheduleRate(source, at);
+    case "topicMessages":
+      return validateKind(
+        source.topic,
+        knownTopicTypes,
+        "topic",
+        `${at}.topic`
+      );
+    case "userPoolTrigger":
+      return Object.prototype.hasOwnProperty.call(
+        knownUserPoolTriggers,
+        source.trigger
+      )
+        ? []
+        : [
+            {
+              path: `${at}.trigger`,
+              message: `unknown user pool trigger ${JSON.stringify(
+                source.trigger
+              )}`,
+            },
+          ];
+    default:
+      return [];
+  }
+};
+
+// Optional lists may be left out but must be arrays when given
+const validateOptionalList = <T>(
+  list: readonly T[] | undefined,
+  path: string,
+  validateItem: (item: T, at: string) => ValidationError[]
+): ValidationError[] => {
+  if (list === undefined) {
+    return [];
+  }
+
+  if (!Array.isArray(list)) {
+    return [{ path, message: "must be an array" }];
+  }
+
+  return flatten(
+    list.map((item, index) => validateItem(item, `${path}[${index}]`))
+  );
+};
+
+// The sizing is checked as resolved with the project defaults, which also
+// gives the timeout that queue event sources are checked against
+export const validateLambdaFunction = (
+  lambdaFunction: LambdaFunction,
+  projectDefaults: ProjectDefaults = {}
+): ValidationError[] => {
+  if (typeof lambdaFunction !== "object" || lambdaFunction === null) {
+    return [
+      {
+        path: "",
+        message:
+          "the metadata module must default export a function definition",
+      },
+    ];
+  }
+
+  const {
+    permissions,
+    environment,
+    eventSource,
+    eventSources,
+    layers,
+    runtime,
+  } = lambdaFunction;
+  const sizing = resolveFunctionSizing(lambdaFunction, projectDefaults);
+  const validateSource = (source: EventSource, at: string) =>
+    validateEventSource(source, at, sizing);
+  return [
+    ...validateFunctionSizing(sizing),
+    ...(Array.isArray(permissions)
+      ? flatten(
+          permissions.map((permission, index) =>
+            validatePermission(permission, `permissions[${index}]`)
+          )
+        )
+      : [{ path: "permissions", message: "must be an array" }]),
+    ...(Array.isArray(environment)
+      ? validateEnvironment(environment)
+      : [{ path: "environment", message: "must be an array" }]),
+    ...(eventSource !== undefined
+      ? validateSource(eventSource, "eventSource")
+      : []),
+    ...validateOptionalList(eventSources, "eventSources", validateSource),
+    ...validateOptionalList(layers, "layers", (layer, at) =>
+      validateKind(layer, knownLayerTypes, "layer", at)
+    ),
+    ...(runtime !== undefined &&
+    !Object.prototype.hasOwnProperty.call(knownRuntimes, runtime)
+      ? [
+          {
+            path: "runtime",
+            message: `must be one of ${Object.keys(knownRuntimes).join(
+              ", "
+            )}, got ${JSON.stringify(runtime)}`,
+          },
+        ]
+      : []),
+  ];
+};
+
+// Each known environment needs a value for every declared parameter, either
+// its own value, one already set for the function or the default. Errors are
+// reported at the parameter's value for the environment.
+export const validateParameterValues = (
+  parameters: readonly CFParameter[],
+  existingValues: { [environment: string]: { [parameter: string]: unknown } }
+): ValidationError[] =>
+  flatten(
+    parameters
+      .filter(({ defaultValue }) => defaultValue === undefined)
+      .map(({ name, environmentValues = {} }) =>
+        Object.keys(existingValues)
+          .filter(
+            (environment) =>
+              environmentValues[environment] === undefined &&
+              existingValues[environment][name] === undefined
+          )
+          .map((environment) => ({
+            path: `${name}.environmentValues.${environment}`,
+            message: "is missing and the parameter has no default",
+          }))
+      )
+  );
+
+// Other Amplify functions a function invokes or reads the name of
+const functionTargets = ({ permissions, environment }: LambdaFunction) => [
+  ...flatten(
+    permissions.map((permission, index) =>
+      isFunctionInvokePermission(permission)
+        ? [
+            {
+              path: `permissions[${index}].lambdaFunction`,
+              functionName: permission.lambdaFunction.functionName,
+            },
+          ]
+        : []
+    )
+  ),
+  ...flatten(
+    environment.map((variable, index) =>
+      variable instanceof FunctionNameVariable
+        ? [
+            {
+              path: `environment[${index}].lambdaFunction`,
+              functionName: variable.lambdaFunction.functionName,
+            },
+          ]
+        : []
+    )
+  ),
+];
+
+export const functionDependencies = (lambdaFunction: LambdaFunction) =>
+  uniq(functionTargets(lambdaFunction).map(({ functionName }) => functionName));
+
+// Targeted functions must be handlers or functions of the Amplify backend
+export const validateFunctionTargets = (
+  lambdaFunction: LambdaFunction,
+  knownFunctions: readonly string[]
+): ValidationError[] =>
+  functionTargets(lambdaFunction)
+    .filter(({ functionName }) => !knownFunctions.includes(functionName))
+    .map(({ path, functionName }) => ({
+      path,
+      message: `function ${functionName} is neither a handler nor a function of the Amplify backend`,
+    }));
+
+// The functions of the first cycle found with the first one repeated at the
+// end, e.g. `["a", "b", "a"]`. Dependencies on unknown functions are ignored.
+export const findFunctionCycle = (dependencies: {
+  readonly [functionName: string]: readonly string[];
+}): string[] | undefined => {
+  const visited = new Set<string>();
+
+  const visit = (path: readonly string[]): string[] | undefined => {
+    const current = path[path.length - 1];
+    for (const dependency of dependencies[current]) {
+      const cycleStart = path.indexOf(dependency);
+      if (cycleStart !== -1) {
+        return [...path.slice(cycleStart), dependency];
+      }
+
+      if (dependencies[dependency] && !visited.has(dependency)) {
+        const cycle = visit([...path, dependency]);
+        if (cycle) {
+          return cycle;
+        }
+      }
+    }
+
+    visited.add(current);
+    return undefined;
+  };
+
+  for (const functionName of Object.keys(dependencies).sort()) {
+    const cycle = visited.has(functionName) ? undefined : visit([functionName]);
+    if (cycle) {
+      return cycle;
+    }
+  }
+
+  return undefined;
+};
+
+export const formatValidationErrors = (
+  handlerDir: string,
+  errors: readonly ValidationError[]
+) =>
+  [
+    `Invalid metadata for ${handlerDir}:`,
+    ...errors.map(({ path, message }) =>
+      path
+        ? `  ${handlerDir}: ${path}: ${message}`
+        : `  ${handlerDir}: ${message}`
+    ),
+  ].join("\n");
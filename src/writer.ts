@@ -0,0 +1,608 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import {
+  flatten,
+  fromPairs,
+  isEmpty,
+  isEqual,
+  mapValues,
+  omit,
+  pickBy,
+} from "lodash";
+import { CFParameter } from "./buildCloudFormationTemplate";
+import { environmentModuleFileName } from "./environmentModule";
+import {
+  BackendConfigEntry,
+  FunctionBuild,
+  FunctionConfig,
+  generatorMarker,
+  UserPoolTriggerConnection,
+} from "./generate";
+import { UserPoolTriggerType } from "./types";
+
+export type UserPoolTriggerEntry = {
+  handlerDir: string;
+  userPoolTriggers: readonly UserPoolTriggerConnection[];
+};
+
+export type BackendConfigFunctionEntry = UserPoolTriggerEntry & {
+  backendConfigEntry: BackendConfigEntry;
+};
+
+// Amplify's per-environment settings, parameter values for a function are
+// kept under categories.function.<name>
+export type TeamProviderInfo = {
+  [environment: string]: {
+    categories?: {
+      [category: string]: {
+        [resource: string]: { [parameter: string]: unknown };
+      };
+    };
+    [key: string]: unknown;
+  };
+};
+
+export type BackendConfigDependency =
+  BackendConfigEntry["dependsOn"][number] & {
+    // Set on the auth resource's dependencies on its user pool triggers
+    triggerProvider?: string;
+  };
+
+// A resource of any category in backend-config.json, fields this tool does
+// not know about are kept as they are
+export type BackendConfigResource = Partial<
+  Omit<BackendConfigEntry, "dependsOn">
+> & {
+  dependsOn?: BackendConfigDependency[];
+  [key: string]: unknown;
+};
+
+// Amplify's backend-config.json, resources keyed by category and name
+export type BackendConfig = {
+  [category: string]: { [resource: string]: BackendConfigResource };
+};
+
+// Trigger modules keyed by the trigger's key, Amplify builds the user pool's
+// LambdaConfig from the keys
+export type UserPoolTriggerConfig = { [triggerKey: string]: string[] };
+
+// The auth resource's cli-inputs.json, written by Amplify CLI 8 and later.
+// Older versions of Amplify keep the triggers in a JSON string.
+export type AuthCliInputs = {
+  cognitoConfig: {
+    triggers?: UserPoolTriggerConfig | string;
+    authTriggerConnections?: string;
+    [key: string]: unknown;
+  };
+  [key: string]: unknown;
+};
+
+export type FunctionParameterEntry = {
+  handlerDir: string;
+  parameters: readonly CFParameter[];
+};
+
+export const templateFileName = (handlerDir: string) =>
+  `${handlerDir}-cloudformation-template.json`;
+
+export const functionOutputDir = (
+  amplifyBackendDir: string,
+  handlerDir: string
+) => path.join(amplifyBackendDir, "function", handlerDir);
+
+export const backendConfigFileName = (amplifyBackendDir: string) =>
+  path.join(amplifyBackendDir, "backend-config.json");
+
+export const teamProviderInfoFileName = (amplifyBackendDir: string) =>
+  path.join(amplifyBackendDir, "..", "team-provider-info.json");
+
+export const functionParametersFileName = (
+  amplifyBackendDir: string,
+  handlerDir: string
+) =>
+  path.join(
+    functionOutputDir(amplifyBackendDir, handlerDir),
+    "parameters.json"
+  );
+
+export const environmentModulePath = (
+  functionsDir: string,
+  handlerDir: string
+) => path.join(functionsDir, handlerDir, environmentModuleFileName);
+
+export const authCliInputsFileName = (
+  amplifyBackendDir: string,
+  authName: string
+) => path.join(amplifyBackendDir, "auth", authName, "cli-inputs.json");
+
+// Amplify's key for PreSignUp differs from the LambdaConfig key
+export const userPoolTriggerKey = (trigger: UserPoolTriggerType) =>
+  trigger === "PreSignUp" ? "PreSignup" : trigger;
+
+// The auth category connects each trigger to the function with this name
+export const userPoolTriggerFunctionName = (
+  authName: string,
+  trigger: UserPoolTriggerType
+) => `${authName}${userPoolTriggerKey(trigger)}`;
+
+export const readFileIfExists = async (filePath: string) => {
+  try {
+    return await fs.readFile(filePath);
+  } catch (e) {
+    if (e.code === "ENOENT") {
+      return undefined;
+    }
+    throw e;
+  }
+};
+
+export const readJsonIfExists = async (filePath: string) => {
+  const contents = await readFileIfExists(filePath);
+  return contents ? JSON.parse(contents.toString("utf8")) : undefined;
+};
+
+export const readBackendConfig = async (
+  amplifyBackendDir: string
+): Promise<BackendConfig> =>
+  JSON.parse(
+    await fs.readFile(backendConfigFileName(amplifyBackendDir), "utf8")
+  );
+
+const isUserPoolTriggerDependency = (dependency: BackendConfigDependency) =>
+  dependency.category === "function" &&
+  dependency.triggerProvider === "Cognito";
+
+// Auth resources depend on the functions that are triggers of their user
+// pool, dependencies on the given handlers that are no longer triggers are
+// removed
+const applyUserPoolTriggers = (
+  auth: BackendConfig[string],
+  triggers: { [handlerDir: string]: readonly UserPoolTriggerConnection[] }
+) =>
+  mapValues(auth, (authResource, authName) => {
+    const dependsOn = authResource.dependsOn || [];
+    const triggerHandlers = Object.keys(triggers).filter((handlerDir) =>
+      triggers[handlerDir].some((trigger) => trigger.authName === authName)
+    );
+    const kept = dependsOn.filter(
+      (dependency) =>
+        !isUserPoolTriggerDependency(dependency) ||
+        !(dependency.resourceName in triggers) ||
+        triggerHandlers.includes(dependency.resourceName)
+    );
+    const added = triggerHandlers
+      .filter(
+        (handlerDir) =>
+          !kept.some(
+            (dependency) =>
+              isUserPoolTriggerDependency(dependency) &&
+              dependency.resourceName === handlerDir
+          )
+      )
+      .map((handlerDir) => ({
+        category: "function",
+        resourceName: handlerDir,
+        triggerProvider: "Cognito",
+        attributes: ["Arn", "Name"],
+      }));
+
+    return kept.length === dependsOn.length && added.length === 0
+      ? authResource
+      : { ...authResource, dependsOn: [...kept, ...added] };
+  });
+
+export const applyBackendConfigEntries = (
+  backendConfig: BackendConfig,
+  entries: readonly BackendConfigFunctionEntry[]
+): BackendConfig => ({
+  ...backendConfig,
+  function: {
+    ...backendConfig.function,
+    ...fromPairs(
+      entries.map(({ handlerDir, backendConfigEntry }) => [
+        handlerDir,
+        backendConfigEntry,
+      ])
+    ),
+  },
+  ...(backendConfig.auth
+    ? {
+        auth: applyUserPoolTriggers(
+          backendConfig.auth,
+          fromPairs(
+            entries.map(({ handlerDir, userPoolTriggers }) => [
+              handlerDir,
+              userPoolTriggers,
+            ])
+          )
+        ),
+      }
+    : {}),
+});
+
+// Functions written by this tool whose handler directory no longer exists
+export const prunableFunctions = (
+  backendConfig: BackendConfig,
+  handlerDirs: readonly string[]
+) =>
+  Object.keys(backendConfig.function || {}).filter(
+    (name) =>
+      backendConfig.function[name].generatedBy === generatorMarker &&
+      !handlerDirs.includes(name)
+  );
+
+export const removeBackendConfigEntries = (
+  backendConfig: BackendConfig,
+  names: readonly string[]
+): BackendConfig => ({
+  ...backendConfig,
+  function: omit(backendConfig.function, names),
+  ...(backendConfig.auth
+    ? {
+        auth: applyUserPoolTriggers(
+          backendConfig.auth,
+          fromPairs(names.map((name) => [name, []]))
+        ),
+      }
+    : {}),
+});
+
+const userPoolTriggerConfig = ({ cognitoConfig }: AuthCliInputs) =>
+  typeof cognitoConfig.triggers === "string"
+    ? (JSON.parse(cognitoConfig.triggers) as UserPoolTriggerConfig)
+    : cognitoConfig.triggers || {};
+
+// The function and LambdaConfig key of each trigger, Amplify writes them next
+// to the triggers as a JSON string
+const authTriggerConnections = (
+  authName: string,
+  triggers: UserPoolTriggerConfig
+) =>
+  Object.keys(triggers).map((key) => ({
+    triggerType: key === "PreSignup" ? "PreSignUp" : key,
+    lambdaFunctionName: `${authName}${key}`,
+  }));
+
+// Keys of the triggers of the auth resource that are handled by the given
+// handlers are added. Keys that were connected to one of the handlers and are
+// no longer its triggers are removed, modules of existing keys are kept.
+export const applyUserPoolTriggerConfig = (
+  cliInputs: AuthCliInputs,
+  authName: string,
+  triggers: { [handlerDir: string]: readonly UserPoolTriggerConnection[] }
+): AuthCliInputs => {
+  const existing = userPoolTriggerConfig(cliInputs);
+  const connectedKeys = Object.keys(existing).filter(
+    (key) => `${authName}${key}` in triggers
+  );
+  const triggerKeys = flatten(Object.values(triggers))
+    .filter((trigger) => trigger.authName === authName)
+    .map(({ trigger }) => userPoolTriggerKey(trigger));
+  const updated = {
+    ...omit(existing, connectedKeys),
+    ...fromPairs(triggerKeys.map((key) => [key, existing[key] || ["custom"]])),
+  };
+  if (isEqual(existing, updated)) {
+    return cliInputs;
+  }
+
+  const connections = authTriggerConnections(authName, updated);
+  return {
+    ...cliInputs,
+    cognitoConfig: {
+      ...omit(cliInputs.cognitoConfig, "authTriggerConnections"),
+      triggers: updated,
+      ...(connections.length > 0
+        ? { authTriggerConnections: JSON.stringify(connections) }
+        : {}),
+    },
+  };
+};
+
+// Written to a temporary file and renamed so that readers never see a
+// partially written file
+const writeJsonAtomically = async (file: string, contents: unknown) => {
+  const temporaryFile = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(temporaryFile, JSON.stringify(contents, null, 2), "utf8");
+  await fs.rename(temporaryFile, file);
+};
+
+const updateBackendConfig = async (
+  amplifyBackendDir: string,
+  update: (backendConfig: BackendConfig) => BackendConfig
+) =>
+  writeJsonAtomically(
+    backendConfigFileName(amplifyBackendDir),
+    update(await readBackendConfig(amplifyBackendDir))
+  );
+
+export const writeBackendConfigEntries = (
+  entries: readonly BackendConfigFunctionEntry[],
+  amplifyBackendDir: string
+) =>
+  updateBackendConfig(amplifyBackendDir, (backendConfig) =>
+    applyBackendConfigEntries(backendConfig, entries)
+  );
+
+// Undefined when the auth resource has no cli-inputs.json, it was then last
+// updated by a version of Amplify that generated its template once
+export const readAuthCliInputs = async (
+  amplifyBackendDir: string,
+  authName: string
+): Promise<AuthCliInputs | undefined> =>
+  readJsonIfExists(authCliInputsFileName(amplifyBackendDir, authName));
+
+// The updated cli-inputs.json of every auth resource whose triggers changed
+export const userPoolTriggerChanges = async (
+  entries: readonly UserPoolTriggerEntry[],
+  amplifyBackendDir: string
+) => {
+  const triggers = fromPairs(
+    entries.map(({ handlerDir, userPoolTriggers }) => [
+      handlerDir,
+      userPoolTriggers,
+    ])
+  );
+  const backendConfig = await readBackendConfig(amplifyBackendDir);
+  const changes: {
+    authName: string;
+    cliInputs: AuthCliInputs;
+    updated: AuthCliInputs;
+  }[] = [];
+
+  for (const authName of Object.keys(backendConfig.auth || {})) {
+    const cliInputs = await readAuthCliInputs(amplifyBackendDir, authName);
+    if (!cliInputs) {
+      if (
+        flatten(Object.values(triggers)).some(
+          (trigger) => trigger.authName === authName
+        )
+      ) {
+        throw new Error(
+          `${authName} has no cli-inputs.json, update it with Amplify CLI 8 or later to add triggers to it`
+        );
+      }
+      continue;
+    }
+
+    const updated = applyUserPoolTriggerConfig(cliInputs, authName, triggers);
+    if (updated !== cliInputs) {
+      changes.push({ authName, cliInputs, updated });
+    }
+  }
+
+  return changes;
+};
+
+export const writeUserPoolTriggers = async (
+  entries: readonly UserPoolTriggerEntry[],
+  amplifyBackendDir: string
+) => {
+  const changes = await userPoolTriggerChanges(entries, amplifyBackendDir);
+  for (const { authName, updated } of changes) {
+    await writeJsonAtomically(
+      authCliInputsFileName(amplifyBackendDir, authName),
+      updated
+    );
+  }
+};
+
+// fs.rm does not exist on Node 10 and fs.rmdir's recursive option is
+// deprecated, so the contents are removed one by one
+const removeDirectory = async (dir: string): Promise<void> => {
+  let entries;
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch (e) {
+    if (e.code === "ENOENT") {
+      return;
+    }
+    throw e;
+  }
+
+  for (const entry of entries) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      await removeDirectory(entryPath);
+    } else {
+      await fs.unlink(entryPath);
+    }
+  }
+  await fs.rmdir(dir);
+};
+
+// Removes the backend-config.json entries and output directories of the
+// functions this tool wrote that are not in handlerDirs, returns their names
+export const pruneFunctions = async (
+  handlerDirs: readonly string[],
+  amplifyBackendDir: string
+): Promise<string[]> => {
+  let pruned: string[] = [];
+  await updateBackendConfig(amplifyBackendDir, (backendConfig) => {
+    pruned = prunableFunctions(backendConfig, handlerDirs);
+    return removeBackendConfigEntries(backendConfig, pruned);
+  });
+  await writeUserPoolTriggers(
+    pruned.map((handlerDir) => ({ handlerDir, userPoolTriggers: [] })),
+    amplifyBackendDir
+  );
+
+  for (const name of pruned) {
+    await removeDirectory(functionOutputDir(amplifyBackendDir, name));
+  }
+
+  return pruned;
+};
+
+// Undefined when the project has no team-provider-info.json yet
+export const readTeamProviderInfo = async (
+  amplifyBackendDir: string
+): Promise<TeamProviderInfo | undefined> =>
+  readJsonIfExists(teamProviderInfoFileName(amplifyBackendDir));
+
+// Values are only written for environments that already exist, Amplify adds
+// an environment to the file when it is created
+export const applyParameterValues = (
+  teamProviderInfo: TeamProviderInfo,
+  entries: readonly FunctionParameterEntry[]
+): TeamProviderInfo =>
+  mapValues(teamProviderInfo, (environmentInfo, environment) => {
+    const functionValues = pickBy(
+      fromPairs(
+        entries.map(({ handlerDir, parameters }) => [
+          handlerDir,
+          pickBy(
+            fromPairs(
+              parameters.map(({ name, environmentValues }) => [
+                name,
+                environmentValues && environmentValues[environment],
+              ])
+            ),
+            (value) => value !== undefined
+          ),
+        ])
+      ),
+      (values) => !isEmpty(values)
+    );
+    if (isEmpty(functionValues)) {
+      return environmentInfo;
+    }
+
+    const categories = environmentInfo.categories || {};
+    const functions = categories.function || {};
+    return {
+      ...environmentInfo,
+      categories: {
+        ...categories,
+        function: {
+          ...functions,
+          ...mapValues(functionValues, (values, handlerDir) => ({
+            ...functions[handlerDir],
+            ...values,
+          })),
+        },
+      },
+    };
+  });
+
+export const writeParameterValues = async (
+  entries: readonly FunctionParameterEntry[],
+  amplifyBackendDir: string
+) => {
+  const teamProviderInfo = await readTeamProviderInfo(amplifyBackendDir);
+  if (teamProviderInfo) {
+    await writeJsonAtomically(
+      teamProviderInfoFileName(amplifyBackendDir),
+      applyParameterValues(teamProviderInfo, entries)
+    );
+  }
+};
+
+// Defaults of the declared parameters, keys that are already in the file
+// and not declared are kept. Undefined when there is nothing to write.
+export const applyFunctionParameters = (
+  functionParameters: { [parameter: string]: unknown } | undefined,
+  parameters: readonly CFParameter[]
+) => {
+  const defaults = fromPairs(
+    parameters
+      .filter(({ defaultValue }) => defaultValue !== undefined)
+      .map(({ name, defaultValue }) => [name, defaultValue])
+  );
+  return functionParameters || !isEmpty(defaults)
+    ? { ...functionParameters, ...defaults }
+    : undefined;
+};
+
+export const writeFunctionParameters = async (
+  { handlerDir, parameters }: FunctionParameterEntry,
+  amplifyBackendDir: string
+) => {
+  const parametersFile = functionParametersFileName(
+    amplifyBackendDir,
+    handlerDir
+  );
+  const functionParameters = applyFunctionParameters(
+    await readJsonIfExists(parametersFile),
+    parameters
+  );
+  if (functionParameters) {
+    await fs.writeFile(
+      parametersFile,
+      JSON.stringify(functionParameters, null, 2),
+      "utf8"
+    );
+  }
+};
+
+// Only written when it changed so that source watchers are not triggered,
+// returns whether it was written
+export const writeEnvironmentModule = async (
+  functionsDir: string,
+  { handlerDir, environmentModule }: FunctionConfig
+) => {
+  const file = environmentModulePath(functionsDir, handlerDir);
+  const existing = await readFileIfExists(file);
+  if (existing && existing.toString("utf8") === environmentModule) {
+    return false;
+  }
+
+  await fs.writeFile(file, environmentModule, "utf8");
+  return true;
+};
+
+export const writeFunctionTemplate = async (
+  { handlerDir, template }: { handlerDir: string; template: object },
+  amplifyBackendDir: string
+) => {
+  const outputDir = functionOutputDir(amplifyBackendDir, handlerDir);
+
+  await fs.mkdir(outputDir, { recursive: true });
+
+  await fs.writeFile(
+    path.join(outputDir, templateFileName(handlerDir)),
+    JSON.stringify(template, null, "\t"),
+    "utf8"
+  );
+};
+
+export const writeFunctionFiles = async (
+  handlerDir: string,
+  files: Map<string, Buffer>,
+  amplifyBackendDir: string
+) => {
+  const srcOutputDir = path.join(
+    functionOutputDir(amplifyBackendDir, handlerDir),
+    "src"
+  );
+  for (const [relativePath, contents] of files) {
+    const filePath = path.join(srcOutputDir, relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, contents);
+  }
+};
+
+// Writes the template and bundle, the backend-config.json entry is written
+// separately so parallel builds can be applied together
+export const writeFunctionBuild = async (
+  build: FunctionBuild,
+  amplifyBackendDir: string
+) => {
+  await writeFunctionTemplate(build, amplifyBackendDir);
+  await writeFunctionParameters(build, amplifyBackendDir);
+  await writeFunctionFiles(build.handlerDir, build.files, amplifyBackendDir);
+};
+
+export const writeBackend = async (
+  builds: readonly FunctionBuild[],
+  amplifyBackendDir: string,
+  functionsDir: string
+) => {
+  for (const build of builds) {
+    await writeEnvironmentModule(functionsDir, build);
+    await writeFunctionBuild(build, amplifyBackendDir);
+  }
+  await writeBackendConfigEntries(builds, amplifyBackendDir);
+  await writeUserPoolTriggers(builds, amplifyBackendDir);
+  await writeParameterValues(builds, amplifyBackendDir);
+};